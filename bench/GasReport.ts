@@ -0,0 +1,62 @@
+/**
+ * @description Measures gas for register, demoRegister, ChainResolver.assign and the view lookups across input sizes
+ *              on a throwaway local anvil instance (bench/gas.ts), and writes a snapshot.
+ *              With --compare it checks the measurements against a snapshot instead, and exits non-zero when any
+ *              metric grew by more than its budget (bench/gas-budget.json).
+ * @usage       bun run bench/GasReport.ts [--snapshot=bench/gas-snapshot.json]
+ *              bun run bench/GasReport.ts --compare [--snapshot=bench/gas-snapshot.json] [--budget=bench/gas-budget.json]
+ */
+
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { Foundry } from "@adraffy/blocksmith";
+import { resolveNetwork } from "../deploy/networks";
+import { parseArgs } from "../deploy/utils";
+import {
+  DEFAULT_BUDGET,
+  compareGas,
+  formatGasComparison,
+  formatGasSnapshot,
+  loadGasBudget,
+  measureGas,
+} from "./gas";
+
+const args = await parseArgs([], ["compare"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const snapshotPath = args.get("snapshot") ?? path.resolve(__dirname, "gas-snapshot.json");
+const budgetPath = args.get("budget") ?? path.resolve(__dirname, "gas-budget.json");
+
+// Same chain as the test suite's local profile; nothing outside this process is touched
+const local = await resolveNetwork("local");
+const foundry = await Foundry.launch({ chain: local.chainId, procLog: false, infoLog: false });
+const current = await measureGas(foundry).finally(() => foundry.shutdown());
+
+if (args.get("compare") !== "true") {
+  await writeFile(snapshotPath, formatGasSnapshot(current));
+  console.log(formatGasSnapshot(current).trimEnd());
+  console.log(`Wrote ${Object.keys(current).length} metrics to ${snapshotPath}`);
+  process.exit(0);
+}
+
+if (!existsSync(snapshotPath)) {
+  console.error(`No snapshot at ${snapshotPath}. Run without --compare to create one.`);
+  process.exit(1);
+}
+
+const baseline = JSON.parse(await readFile(snapshotPath, "utf8"));
+const budget = existsSync(budgetPath) ? await loadGasBudget(budgetPath) : DEFAULT_BUDGET;
+const comparisons = compareGas(baseline, current, budget);
+
+console.log(formatGasComparison(comparisons));
+
+const over = comparisons.filter((x) => x.status === "over");
+if (over.length > 0) {
+  console.error(`${over.length} metrics exceed their gas budget: ${over.map((x) => x.metric).join(", ")}`);
+  console.error("If the increase is intended, re-run without --compare to update the snapshot.");
+  process.exit(1);
+}
+console.log("All metrics within budget.");
@@ -0,0 +1,213 @@
+/**
+ * @description Gas benchmarks for the registry contracts on a local anvil instance: register and demoRegister across
+ *              chain name and reference lengths, ChainResolver.assign across label lengths, and the view lookups.
+ *              Every run deploys fresh contracts and replays the same cases, so results are reproducible and can be
+ *              snapshotted and compared against a budget.
+ *
+ *              Budget file (percent and/or absolute gas the metric may grow by; patterns end in "*"):
+ *
+ *              {
+ *                "default": { "percent": 1 },
+ *                "metrics": { "register/*": { "percent": 2, "gas": 500 } }
+ *              }
+ */
+
+import { readFile } from "fs/promises";
+import { Interface, dnsEncode } from "ethers";
+import { computeNode } from "../sdk/ChainResolver";
+import { encodeChainData } from "../sdk/ChainRegistryClient";
+import { registryCoinType } from "../sdk/ENSCoinType";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import { ChainData } from "../sdk/types";
+
+// Metric name -> gas used
+export type GasSnapshot = Record<string, number>;
+
+export type GasBudget = {
+  // Allowed increase as a percentage of the baseline
+  readonly percent?: number;
+  // Allowed increase in gas
+  readonly gas?: number;
+};
+
+export type GasBudgetConfig = {
+  readonly default: GasBudget;
+  readonly metrics?: Record<string, GasBudget>;
+};
+
+// over:    grew by more than its budget
+// new:     not in the baseline
+// removed: in the baseline, no longer measured
+export type GasStatus = "ok" | "improved" | "over" | "new" | "removed";
+
+export type GasComparison = {
+  readonly metric: string;
+  readonly baseline: number | null;
+  readonly current: number | null;
+  readonly delta: number;
+  // The largest increase the budget allows
+  readonly allowed: number;
+  readonly status: GasStatus;
+};
+
+export const DEFAULT_BUDGET: GasBudgetConfig = { default: { percent: 1 } };
+
+// Chain name and label lengths, in bytes
+export const NAME_SIZES = [4, 32, 128];
+// eip155 references parsed by Strings.parseUint: 1 digit up to the 78 digits of a uint256
+export const EIP155_REFERENCE_DIGITS = [1, 10, 78];
+// Non-eip155 references are stored as-is (CAIP-2 allows up to 32 characters; longer ones are accepted)
+export const REFERENCE_SIZES = [8, 32, 64];
+
+const ROLLUP_CONTRACT = "0x49f53e41452C74589E85cA1677426Ba426459e85";
+
+// A unique string of exactly `length` bytes
+function sized(prefix: string, length: number): string {
+  return prefix.padEnd(length, "x").slice(0, length);
+}
+
+// A unique decimal reference of exactly `digits` digits
+function decimal(digits: number, index: number): string {
+  return (10n ** BigInt(digits - 1) + BigInt(index)).toString();
+}
+
+// The ChainData cases measured for register and demoRegister; `index` keeps names and references unique per method
+export function registrationCases(index: number): Record<string, ChainData> {
+  const chain = (chainName: string, chainNamespace: string, chainReference: string): ChainData => ({
+    chainName,
+    settlementChainId: 1,
+    version: "1",
+    rollupContract: ROLLUP_CONTRACT,
+    chainNamespace,
+    chainReference,
+    coinType: 0,
+  });
+
+  const cases: Record<string, ChainData> = {};
+  for (const [i, size] of NAME_SIZES.entries()) {
+    cases[`name-${size}`] = chain(sized(`n${index}-${i}-`, size), "eip155", decimal(4, index * 100 + i));
+  }
+  for (const [i, digits] of EIP155_REFERENCE_DIGITS.entries()) {
+    const reference = digits === 1 ? String(index + 2) : decimal(digits, index * 100 + 10 + i);
+    cases[`eip155-ref-${digits}`] = chain(`r${index}-${i}`, "eip155", reference);
+  }
+  for (const [i, size] of REFERENCE_SIZES.entries()) {
+    cases[`ref-${size}`] = chain(`c${index}-${i}`, "cosmos", sized(`ref-${index}-${i}-`, size));
+  }
+  return cases;
+}
+
+// The ENS text() call the resolver is asked to resolve
+const TEXT_INTERFACE = new Interface(["function text(bytes32 node, string key) view returns (string)"]);
+
+// Deploys fresh contracts on the (local) foundry instance and measures every case
+// Transactions report receipt.gasUsed; view lookups report eth_estimateGas, which includes the 21000 base cost
+export async function measureGas(foundry): Promise<GasSnapshot> {
+  const libs = {
+    CAIP2: await foundry.deploy({ file: "CAIP2", args: [] }),
+    ENSCoinType: await foundry.deploy({ file: "ENSCoinType", args: [] }),
+    ERC7785ChainId: await foundry.deploy({ file: "ERC7785ChainId", args: [] }),
+  };
+  const registry = await foundry.deploy({ file: "ChainRegistry", args: [], libs });
+  const resolver = await foundry.deploy({ file: "ChainResolver", args: [registry.target] });
+
+  const snapshot: GasSnapshot = {};
+  const measure = async (metric: string, tx: Promise<unknown>) => {
+    const receipt = await foundry.confirm(tx);
+    snapshot[metric] = Number(receipt.gasUsed);
+  };
+
+  for (const [index, method] of (["register", "demoRegister"] as const).entries()) {
+    for (const [name, data] of Object.entries(registrationCases(index))) {
+      await measure(`${method}/${name}`, registry[method](encodeChainData(data)));
+    }
+  }
+
+  // Labels point at the largest registered chain
+  const chain = registrationCases(0)[`name-${NAME_SIZES.at(-1)}`];
+  const chainId = computeChainId(chain);
+  for (const size of NAME_SIZES) {
+    await measure(`assign/label-${size}`, resolver.assign(sized(`label-`, size), chainId));
+  }
+
+  const label = sized("label-", NAME_SIZES[0]);
+  const name = dnsEncode(`${label}.cid.eth`);
+  const textCall = (key: string) => TEXT_INTERFACE.encodeFunctionData("text", [computeNode(label), key]);
+  const views: Record<string, Promise<bigint>> = {
+    "view/chainDataFromId": registry.chainDataFromId.estimateGas(chainId),
+    "view/chainDataFromCaip2": registry.chainDataFromCaip2.estimateGas(chain.chainNamespace, chain.chainReference),
+    "view/chainDataFromEnsCoinType": registry.chainDataFromEnsCoinType.estimateGas(registryCoinType(chain)),
+    "view/chainIdToLabel": resolver.chainIdToLabel.estimateGas(chainId),
+    "view/resolve-chain-id": resolver.resolve.estimateGas(name, textCall("chain-id")),
+    "view/resolve-caip2": resolver.resolve.estimateGas(name, textCall("caip2")),
+  };
+  for (const [metric, estimate] of Object.entries(views)) {
+    snapshot[metric] = Number(await estimate);
+  }
+
+  return sortSnapshot(snapshot);
+}
+
+// Metric names in order, so snapshot diffs stay readable
+export function sortSnapshot(snapshot: GasSnapshot): GasSnapshot {
+  return Object.fromEntries(Object.entries(snapshot).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+export async function loadGasBudget(file: string): Promise<GasBudgetConfig> {
+  const json = JSON.parse(await readFile(file, "utf8"));
+  const budgets = [json.default, ...Object.values(json.metrics ?? {})];
+  for (const budget of budgets) {
+    if (typeof budget !== "object" || budget === null || (budget.percent === undefined && budget.gas === undefined)) {
+      throw new Error(`${file}: every budget needs "percent" and/or "gas"`);
+    }
+  }
+  return json;
+}
+
+// The budget for a metric: an exact entry, else the longest matching "prefix*" pattern, else the default
+export function budgetFor(metric: string, config: GasBudgetConfig): GasBudget {
+  const metrics = config.metrics ?? {};
+  if (metrics[metric]) return metrics[metric];
+  const pattern = Object.keys(metrics)
+    .filter((x) => x.endsWith("*") && metric.startsWith(x.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return pattern ? metrics[pattern] : config.default;
+}
+
+// The largest increase a budget allows over a baseline
+export function allowedIncrease(baseline: number, budget: GasBudget): number {
+  return Math.max(Math.floor((baseline * (budget.percent ?? 0)) / 100), budget.gas ?? 0);
+}
+
+export function compareGas(baseline: GasSnapshot, current: GasSnapshot, config: GasBudgetConfig): GasComparison[] {
+  const metrics = [...new Set([...Object.keys(baseline), ...Object.keys(current)])].sort();
+  return metrics.map((metric) => {
+    const before = baseline[metric] ?? null;
+    const after = current[metric] ?? null;
+    if (before === null) return { metric, baseline: null, current: after, delta: 0, allowed: 0, status: "new" };
+    if (after === null) return { metric, baseline: before, current: null, delta: 0, allowed: 0, status: "removed" };
+
+    const delta = after - before;
+    const allowed = allowedIncrease(before, budgetFor(metric, config));
+    const status: GasStatus = delta > allowed ? "over" : delta < 0 ? "improved" : "ok";
+    return { metric, baseline: before, current: after, delta, allowed, status };
+  });
+}
+
+export function formatGasComparison(comparisons: GasComparison[]): string {
+  const rows = comparisons.map((x) => [
+    x.metric,
+    x.baseline?.toString() ?? "-",
+    x.current?.toString() ?? "-",
+    x.baseline && x.current ? `${x.delta > 0 ? "+" : ""}${x.delta}` : "-",
+    x.baseline && x.current ? `${((x.delta / x.baseline) * 100).toFixed(2)}%` : "-",
+    x.status === "over" ? `OVER (budget +${x.allowed})` : x.status,
+  ]);
+  const header = ["metric", "baseline", "current", "delta", "change", "status"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n");
+}
+
+export function formatGasSnapshot(snapshot: GasSnapshot): string {
+  return JSON.stringify(sortSnapshot(snapshot), null, 2) + "\n";
+}
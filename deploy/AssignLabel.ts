@@ -0,0 +1,77 @@
+/**
+ * @description Assigns a cid.eth label to a registered chain on the ChainResolver.
+ *              The label is checked against ENSIP-15 first: the normalized form and resulting namehash are shown,
+ *              and labels that are invalid, confusable or not already normalized are refused.
+ * @usage       bun run deploy/AssignLabel.ts --chain=sepolia --label=base --caip2=eip155:8453 [--dry-run] [--yes] [--resolver=0x...]
+ *              bun run deploy/AssignLabel.ts --chain=sepolia --label=base --chain-id=0x... [--dry-run] [--yes]
+ */
+
+import {
+  initSmith,
+  shutdownSmith,
+  loadDeployment,
+  setOrDie,
+} from "./utils.js";
+
+import { init } from "./init.js";
+import { decide, initPlan } from "./plan.js";
+import { parseCaip2 } from "../sdk/CAIP2";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { checkLabel } from "../sdk/labels";
+
+// Initialize deployment
+const { args, chainId, network } = await init();
+const ctx = await initPlan(args, network);
+
+const label = args.get("label");
+setOrDie(label, "Label (--label=)");
+
+// Check the label before touching the network
+const check = checkLabel(label);
+console.log(`Label:      ${JSON.stringify(check.label)}`);
+console.log(`Normalized: ${check.normalized === null ? "(invalid)" : JSON.stringify(check.normalized)}`);
+if (check.name) {
+  console.log(`Name:       ${check.name}`);
+  console.log(`Namehash:   ${check.node}`);
+}
+if (check.errors.length > 0) {
+  for (const error of check.errors) console.error(`    error: ${error}`);
+  console.error("Refusing to assign this label. Nothing was submitted.");
+  process.exit(1);
+}
+
+//Launch blocksmith
+const { deployerWallet, smith, rl } = await initSmith(network);
+
+const resolverAddress = args.get("resolver") ?? (await loadDeployment(chainId, "ChainResolver")).target;
+const client = new ChainResolverClient(resolverAddress, deployerWallet);
+
+console.log(`ChainResolver: ${resolverAddress}`);
+
+// The chain is given by 7785 chain ID, or by CAIP-2 identifier and looked up in the registry
+let targetChainId = args.get("chain-id");
+if (!targetChainId && args.get("caip2")) {
+  const { namespace, reference } = parseCaip2(args.get("caip2"));
+  const registry = new ChainRegistryClient(await client.contract.CHAIN_REGISTRY(), deployerWallet);
+  targetChainId = (await registry.chainDataFromCaip2(namespace, reference))?.chainId;
+  setOrDie(targetChainId, `Registered chain for ${args.get("caip2")}`);
+}
+setOrDie(targetChainId, "Chain (--chain-id= or --caip2=)");
+
+const assigned = await client.chainIdForLabel(label);
+if (assigned === targetChainId) {
+  console.log(`${check.name} is already assigned to ${targetChainId}`);
+} else if (assigned) {
+  console.error(`${check.name} is already assigned to a different chain: ${assigned}`);
+  await shutdownSmith(rl, smith);
+  process.exit(1);
+} else if (ctx.dryRun) {
+  console.log(`[dry run] Assign ${check.name} to ${targetChainId}`);
+} else if (await decide(ctx, rl, `Assign ${check.name} to ${targetChainId}? (y/n)`, true)) {
+  const { receipt } = await client.assign(label, targetChainId);
+  console.log(`Assigned ${check.name}: ${receipt.hash}`);
+}
+
+//Shutdown
+await shutdownSmith(rl, smith);
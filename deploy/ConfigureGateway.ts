@@ -0,0 +1,67 @@
+/**
+ * @description Points the ChainResolver's offchain (CCIP-Read) text records at a gateway and allows its signer.
+ * @usage       bun run deploy/ConfigureGateway.ts --chain=sepolia --urls=https://gw.example/{sender}/{data}.json --signer=0x... [--revoke=0x...] [--dry-run] [--yes] [--resolver=0x...]
+ */
+
+import { Contract, ContractTransactionResponse, getAddress } from "ethers";
+
+import {
+  initSmith,
+  shutdownSmith,
+  loadDeployment,
+} from "./utils.js";
+
+import { init } from "./init.js";
+import { decide, initPlan } from "./plan.js";
+import { CHAIN_RESOLVER_ABI } from "../sdk/abis";
+
+// Initialize deployment
+const { args, chainId, network } = await init();
+const ctx = await initPlan(args, network);
+
+//Launch blocksmith
+const { deployerWallet, smith, rl } = await initSmith(network);
+
+const resolverAddress = args.get("resolver") ?? (await loadDeployment(chainId, "ChainResolver")).target;
+const resolver = new Contract(resolverAddress, CHAIN_RESOLVER_ABI, deployerWallet);
+
+console.log(`ChainResolver: ${resolverAddress}`);
+
+// --urls= is comma separated; EIP-3668 clients try them in order
+const urls = args.get("urls")?.split(",").filter(Boolean);
+const signer = args.get("signer");
+const revoke = args.get("revoke");
+
+const current: string[] = [...(await resolver.getGatewayUrls())];
+console.log("Current gateway URLs:", current);
+
+const steps: { description: string; send: () => Promise<ContractTransactionResponse> }[] = [];
+
+if (urls && urls.join(",") !== current.join(",")) {
+  steps.push({ description: `Set gateway URLs to ${JSON.stringify(urls)}`, send: () => resolver.setGatewayUrls(urls) });
+}
+if (signer && !(await resolver.signers(signer))) {
+  steps.push({ description: `Allow signer ${getAddress(signer)}`, send: () => resolver.setSigner(signer, true) });
+}
+if (revoke && (await resolver.signers(revoke))) {
+  steps.push({ description: `Revoke signer ${getAddress(revoke)}`, send: () => resolver.setSigner(revoke, false) });
+}
+
+if (steps.length === 0) {
+  console.log("Nothing to change.");
+}
+
+for (const step of steps) {
+  if (ctx.dryRun) {
+    console.log(`[dry run] ${step.description}`);
+    continue;
+  }
+  if (await decide(ctx, rl, `${step.description}? (y/n)`, true)) {
+    const tx = await step.send();
+    await tx.wait();
+    console.log(`${step.description}: ${tx.hash}`);
+  }
+}
+
+//Shutdown
+await shutdownSmith(rl, smith);
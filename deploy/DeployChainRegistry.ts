@@ -1,36 +1,41 @@
 /**
  * @description This script deploys the ChainRegistry contract and verifies it on Etherscan.
- * @usage       bun run deploy/DeployChainRegistry.ts --chain=sepolia
+ * @usage       bun run deploy/DeployChainRegistry.ts --chain=sepolia [--yes] [--plan=plan.json] [--dry-run]
  * @author      Thomas Clowes (clowes.eth)
  * @date        2025-08-22
  */
 
 import {
   initSmith,
-  promptContinueOrExit,
-  deployContract,
-  verifyContract,
   shutdownSmith,
   constructorCheck,
+  loadDeployment,
 } from "./utils.js";
 
+import { decide, initPlan, planDeploy, planStep, planVerify } from "./plan.js";
+
 import { init } from "./init.js";
 
 // Initialize deployment
-const { chainId, privateKey } = await init();
+const { args, chainId, network } = await init();
+
+// Prompts, or follows the deployment plan when run with --yes/--plan=/--dry-run
+const ctx = await initPlan(args, network);
 
 //Launch blocksmith
-const { deployerWallet, smith, rl } = await initSmith(chainId, privateKey);
+const { deployerWallet, smith, rl } = await initSmith(network);
 
-const shouldBegin = await promptContinueOrExit(rl, "Start deployment? (y/n)");
+const shouldBegin = await decide(ctx, rl, "Start deployment? (y/n)", true);
 
 if (shouldBegin) {
   // These are the libraries that are required for the ChainRegistry contract deployment
   const extraLibsNames = ["CAIP2", "ENSCoinType", "ERC7785ChainId"];
 
-  const shouldDeployLibs = await promptContinueOrExit(
+  const shouldDeployLibs = await decide(
+    ctx,
     rl,
-    `Deploy libraries? (${extraLibsNames}) (y/n)`
+    `Deploy libraries? (${extraLibsNames}) (y/n)`,
+    true
   );
 
   if (shouldDeployLibs) {
@@ -39,12 +44,21 @@ if (shouldBegin) {
     let allLibs = {};
 
     for (let libName of extraLibsNames) {
-      console.log(`Deploying ${libName}?`);
-
       const libArgs = [];
       const libLibs = {};
 
-      const { contract, contractAddress } = await deployContract(
+      // When unattended, libraries the plan skips must already be deployed
+      if (ctx.unattended && !planStep(ctx, libName).deploy) {
+        const { target } = await loadDeployment(chainId, libName);
+        console.log(`Skipping ${libName} (plan), using ${target}`);
+        allLibs[libName] = { contractAddress: target, already: true };
+        continue;
+      }
+
+      console.log(`Deploying ${libName}?`);
+
+      const { contract, contractAddress } = await planDeploy(
+        ctx,
         smith,
         deployerWallet,
         libName,
@@ -52,14 +66,16 @@ if (shouldBegin) {
         libLibs
       );
 
-      const shouldVerifyLib = await promptContinueOrExit(
+      const shouldVerifyLib = await decide(
+        ctx,
         rl,
-        `Verify ${libName}? (y/n)`
+        `Verify ${libName}? (y/n)`,
+        planStep(ctx, libName).verify
       );
 
       if (shouldVerifyLib) {
-        await verifyContract(
-          chainId,
+        await planVerify(
+          ctx,
           contract,
           libName,
           libArgs,
@@ -70,16 +86,18 @@ if (shouldBegin) {
 
       allLibs[libName] = {
         contract: contract,
-        contractAddress: await contract.getAddress(),
+        contractAddress: contract ? await contract.getAddress() : contractAddress,
         already: true,
       };
     }
 
     const contractName = "ChainRegistry";
 
-    const shouldDeployContract = await promptContinueOrExit(
+    const shouldDeployContract = await decide(
+      ctx,
       rl,
-      `Deploy ${contractName}? (y/n)`
+      `Deploy ${contractName}? (y/n)`,
+      planStep(ctx, contractName).deploy
     );
 
     let deployedContract;
@@ -88,7 +106,8 @@ if (shouldBegin) {
       const contractArgs = [];
       //const contractLibs = {CAIP2};
 
-      const { contract, contractAddress, already } = await deployContract(
+      const { contract, contractAddress, already } = await planDeploy(
+        ctx,
         smith,
         deployerWallet,
         contractName,
@@ -99,20 +118,22 @@ if (shouldBegin) {
       deployedContract = contract;
       deployedContractAddress = contractAddress;
 
-      if (already)
+      if (already && deployedContract)
         constructorCheck(deployedContract.constructorArgs, contractArgs);
 
-      const shouldVerify = await promptContinueOrExit(
+      const shouldVerify = await decide(
+        ctx,
         rl,
-        `Verify ${contractName}? (y/n)`
+        `Verify ${contractName}? (y/n)`,
+        planStep(ctx, contractName).verify
       );
 
       if (shouldVerify) {
-        await verifyContract(
-          chainId,
+        await planVerify(
+          ctx,
           deployedContract,
           contractName,
-          deployedContract.constructorArgs,
+          deployedContract?.constructorArgs ?? contractArgs,
           allLibs,
           smith
         );
@@ -1,47 +1,55 @@
 /**
  * @description This script deploys the ChainResolver contract, and verifies it on Etherscan. 
- * @usage       bun run deploy/DeployChainResolver.ts --chain=sepolia
+ * @usage       bun run deploy/DeployChainResolver.ts --chain=sepolia [--yes] [--plan=plan.json] [--dry-run] [--registry=0x...]
  * @author      Thomas Clowes (clowes.eth)
  * @date        2025-08-22
  */
 
 import {
     initSmith,
-    promptContinueOrExit,
-    deployContract,
-    verifyContract,
     shutdownSmith,
     constructorCheck,
-    loadDeployment,
 } from './utils.js';
 
+import { decide, initPlan, planDependency, planDeploy, planStep, planVerify } from './plan.js';
 
 import { init } from './init';
 
 // Initialize deployment
-const { chainId, privateKey } = await init();
+const { args, network } = await init();
+
+// Prompts, or follows the deployment plan when run with --yes/--plan=/--dry-run
+const ctx = await initPlan(args, network);
 
 //Launch blocksmith
-const { deployerWallet, smith, rl } = await initSmith(chainId, privateKey);
+const { deployerWallet, smith, rl } = await initSmith(network);
 
-const shouldBegin = await promptContinueOrExit(rl, 'Start deployment? (y/n)');
+const shouldBegin = await decide(ctx, rl, 'Start deployment? (y/n)', true);
 
 if (shouldBegin) {
 
-    // Load the ChainRegistry deployment - this must be deployed first
-    const chainRegistryDeployment = await loadDeployment(chainId, 'ChainRegistry');
+    // The ChainRegistry must be deployed first; --registry= supplies it when it was not saved (e.g. after a dry run)
+    const chainRegistryAddress = await planDependency(ctx, 'ChainRegistry', 'registry', args.get('registry'))
+        .catch(
+            (e) => {
+                console.error(e.message);
+                process.exit(1);
+            }
+        );
 
     // Deployment args/libs
-    const contractArgs = [chainRegistryDeployment.target];
+    const contractArgs = [chainRegistryAddress];
     const contractLibs = {};
 
     // The contract name
     const contractName = 'ChainResolver';
 
     // Prompt the user to deploy the contract
-    const shouldDeployContract = await promptContinueOrExit(
+    const shouldDeployContract = await decide(
+        ctx,
         rl,
-        `Deploy ${contractName}? (y/n)`
+        `Deploy ${contractName}? (y/n)`,
+        planStep(ctx, contractName).deploy
     );
 
     // If the user wants to deploy the contract, deploy it
@@ -50,7 +58,8 @@ if (shouldBegin) {
 
     if (shouldDeployContract) {
 
-        const { contract, contractAddress, already } = await deployContract(
+        const { contract, contractAddress, already } = await planDeploy(
+            ctx,
             smith,
             deployerWallet,
             contractName,
@@ -61,22 +70,29 @@ if (shouldBegin) {
         deployedContract = contract;
         deployedContractAddress = contractAddress;
 
-        if (already) constructorCheck(deployedContract.constructorArgs, contractArgs);
+        if (already && deployedContract) constructorCheck(deployedContract.constructorArgs, contractArgs);
     }
 
-    const shouldVerify = await promptContinueOrExit(
+    const shouldVerify = await decide(
+        ctx,
         rl,
-        `Verify ${contractName}? (y/n)`
+        `Verify ${contractName}? (y/n)`,
+        planStep(ctx, contractName).verify
     );
 
-    if (shouldVerify) {
+    if (shouldVerify && !deployedContractAddress) {
+
+        // Nothing to verify against when the deployment step was declined
+        console.log(`${contractName} was not deployed in this run. Skipping verification.`);
+
+    } else if (shouldVerify) {
 
         // Verify the contract
-        await verifyContract(
-            chainId,
+        await planVerify(
+            ctx,
             deployedContract,
             contractName,
-            deployedContract.constructorArgs,
+            deployedContract?.constructorArgs ?? contractArgs,
             contractLibs,
             smith
         );
@@ -0,0 +1,59 @@
+/**
+ * @description Exports every registered chain and cid.eth label (read from events plus chainDataFromId) as
+ *              chainlist JSON, a CAIP-2 listing, an ops CSV and label -> chain ID pairs (sdk/export.ts).
+ *              Output is deterministic and index.json carries a content hash, so exports can be diffed in PRs.
+ *              Read-only: no private key needed.
+ * @usage       bun run deploy/ExportChains.ts --chain=sepolia [--rpc=http://...] --out-dir=export [--snapshot=snapshot.json] [--from-block=0] [--registry=0x...] [--resolver=0x...]
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { JsonRpcProvider } from "ethers";
+import { resolveNetwork } from "./networks";
+import { loadDeployment, parseArgs } from "./utils";
+import { ChainIndexer } from "../sdk/ChainIndexer";
+import { renderExport } from "../sdk/export";
+
+const args = await parseArgs(["chain", "out-dir"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const network = await resolveNetwork(args.get("chain"), { rpc: args.get("rpc") }).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const provider = new JsonRpcProvider(network.rpc, network.chainId, { staticNetwork: true });
+
+const registry = args.get("registry") ?? (await loadDeployment(network.chainId, "ChainRegistry")).target;
+const resolver =
+  args.get("resolver") ?? (await loadDeployment(network.chainId, "ChainResolver").catch(() => undefined))?.target;
+
+// --snapshot= reuses (and updates) an IndexChains snapshot instead of replaying every event
+const indexer = new ChainIndexer({
+  provider,
+  registry,
+  resolver,
+  snapshotPath: args.get("snapshot"),
+  startBlock: Number(args.get("from-block") ?? 0),
+});
+const snapshot = await indexer.sync();
+
+const unrecovered = Object.values(snapshot.labels).filter((x) => x.label === null);
+if (unrecovered.length > 0) {
+  console.warn(`${unrecovered.length} labels could not be recovered and are not exported:`, unrecovered.map((x) => x.node));
+}
+
+const outDir = args.get("out-dir");
+await mkdir(outDir, { recursive: true });
+
+const files = renderExport(snapshot);
+for (const [name, content] of Object.entries(files)) {
+  await writeFile(path.join(outDir, name), content);
+  console.log(`Wrote ${path.join(outDir, name)}`);
+}
+
+console.log(`Content hash: ${JSON.parse(files["index.json"]).contentHash}`);
+
+provider.destroy();
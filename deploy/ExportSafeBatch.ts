@@ -0,0 +1,71 @@
+/**
+ * @description Writes the owner-gated operations in an operations file (registrations, cid.eth label assignments and
+ *              transferOwnership) as a Safe Transaction Builder JSON batch, instead of sending them (sdk/safe.ts).
+ *              Everything is validated against the live contracts first; operations already done are skipped.
+ *              Check the batch with deploy/SimulateSafeBatch.ts, then load it in the Safe Transaction Builder.
+ *              Read-only: no private key needed.
+ * @usage       bun run deploy/ExportSafeBatch.ts --chain=sepolia [--rpc=http://...] --ops=deploy/safe-ops.example.json --safe=0x... [--out=batch.json] [--name=...] [--registry=0x...] [--resolver=0x...]
+ */
+
+import { writeFile } from "fs/promises";
+import { JsonRpcProvider, getAddress } from "ethers";
+import { resolveNetwork } from "./networks";
+import { loadDeployment, parseArgs } from "./utils";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { buildSafeBatch, describeTransaction, loadSafeOperations, planSafeOperations } from "../sdk/safe";
+
+const args = await parseArgs(["chain", "ops", "safe"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const network = await resolveNetwork(args.get("chain"), { rpc: args.get("rpc") }).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const provider = new JsonRpcProvider(network.rpc, network.chainId, { staticNetwork: true });
+
+const registryAddress = args.get("registry") ?? (await loadDeployment(network.chainId, "ChainRegistry")).target;
+const resolverAddress =
+  args.get("resolver") ?? (await loadDeployment(network.chainId, "ChainResolver").catch(() => undefined))?.target;
+
+const registry = new ChainRegistryClient(registryAddress, provider);
+const resolver = resolverAddress ? new ChainResolverClient(resolverAddress, provider) : undefined;
+const safe = getAddress(args.get("safe"));
+
+console.log(`ChainRegistry: ${registryAddress}`);
+console.log(`ChainResolver: ${resolverAddress ?? "none"}`);
+
+const spec = await loadSafeOperations(args.get("ops"));
+const plan = await planSafeOperations(spec, registry, resolver).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+for (const skipped of plan.skipped) console.log(`skipped: ${skipped}`);
+for (const warning of plan.warnings) console.warn(`warning: ${warning}`);
+
+// The batch only executes if the Safe owns the contracts it calls
+const owners = [registry.contract, ...(resolver ? [resolver.contract] : [])];
+for (const contract of owners) {
+  const owner = getAddress(await contract.owner());
+  if (owner !== safe) console.warn(`warning: ${await contract.getAddress()} is owned by ${owner}, not the Safe`);
+}
+
+if (plan.operations.length === 0) {
+  console.log("Nothing to do: every operation is already on chain. No batch written.");
+  provider.destroy();
+  process.exit(0);
+}
+
+const targets = { registry: registryAddress, resolver: resolverAddress };
+const batch = buildSafeBatch(plan.operations, targets, { safe, chainId: network.chainId, name: args.get("name") });
+batch.transactions.forEach((tx, i) => console.log(`${i + 1}. ${describeTransaction(tx, targets)}`));
+
+const outPath = args.get("out") ?? args.get("ops").replace(/\.json$/i, "") + ".safe-batch.json";
+await writeFile(outPath, JSON.stringify(batch, null, 2) + "\n");
+console.log(`Wrote ${batch.transactions.length} transactions for Safe ${safe} to ${outPath}`);
+
+provider.destroy();
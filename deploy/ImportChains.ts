@@ -0,0 +1,38 @@
+/**
+ * @description Converts ethereum-lists/chains JSON files into a ChainData manifest for deploy/RegisterChains.ts.
+ *              Fields that cannot be derived are flagged per entry and must be filled in before registering.
+ * @usage       bun run deploy/ImportChains.ts --from=chains/_data/chains --out=chains.json [--chain-ids=8453,10]
+ *              bun run deploy/ImportChains.ts --from=eip155-8453.json,eip155-10.json --out=chains.json
+ */
+
+import { writeFile } from "fs/promises";
+import { parseArgs } from "./utils";
+import { loadEthereumListsChains } from "../sdk/ethereumLists";
+import { validateManifest } from "../sdk/manifest";
+
+const args = await parseArgs(["from", "out"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const chainIds = args.get("chain-ids")?.split(",").filter(Boolean);
+
+let chains = await loadEthereumListsChains(args.get("from").split(","));
+if (chainIds) {
+  chains = chains.filter((x) => chainIds.includes(x.chainReference));
+}
+
+// What RegisterChains would say about each entry as imported
+const validation = validateManifest(chains);
+
+for (const [i, chain] of chains.entries()) {
+  const ready = validation[i].errors.length === 0;
+  console.log(`[${ready ? "ready" : "incomplete"}] ${chain.source} -> ${chain.label || "(no label)"} (eip155:${chain.chainReference})`);
+  for (const flag of chain.flags) console.log(`    flag: ${flag}`);
+  for (const error of validation[i].errors) console.log(`    error: ${error}`);
+}
+
+await writeFile(args.get("out"), JSON.stringify({ chains }, null, 2) + "\n");
+
+const incomplete = validation.filter((x) => x.errors.length > 0).length;
+console.log(`${chains.length} chains written to ${args.get("out")} (${incomplete} incomplete)`);
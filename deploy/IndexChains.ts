@@ -0,0 +1,47 @@
+/**
+ * @description Builds (or incrementally updates) a local JSON snapshot of every registered chain and cid.eth label
+ *              by replaying ChainRegistry and ChainResolver events. Read-only: no private key needed.
+ * @usage       bun run deploy/IndexChains.ts --chain=sepolia [--rpc=http://...] --out=snapshot.json [--from-block=0] [--registry=0x...] [--resolver=0x...]
+ */
+
+import { JsonRpcProvider } from "ethers";
+import { resolveNetwork } from "./networks";
+import { loadDeployment, parseArgs } from "./utils";
+import { ChainIndexer } from "../sdk/ChainIndexer";
+
+const args = await parseArgs(["chain", "out"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const network = await resolveNetwork(args.get("chain"), { rpc: args.get("rpc") }).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const provider = new JsonRpcProvider(network.rpc, network.chainId, { staticNetwork: true });
+
+const registry = args.get("registry") ?? (await loadDeployment(network.chainId, "ChainRegistry")).target;
+const resolver =
+  args.get("resolver") ?? (await loadDeployment(network.chainId, "ChainResolver").catch(() => undefined))?.target;
+
+const indexer = new ChainIndexer({
+  provider,
+  registry,
+  resolver,
+  snapshotPath: args.get("out"),
+  startBlock: Number(args.get("from-block") ?? 0),
+});
+
+const before = await indexer.load();
+const snapshot = await indexer.sync();
+
+console.log(`Indexed blocks ${before.lastBlock + 1}..${snapshot.lastBlock}`);
+console.log(`Chains: ${Object.keys(snapshot.chains).length}, labels: ${Object.keys(snapshot.labels).length}`);
+
+const unrecovered = Object.values(snapshot.labels).filter((x) => x.label === null);
+if (unrecovered.length > 0) {
+  console.warn(`${unrecovered.length} labels could not be recovered from calldata:`, unrecovered.map((x) => x.node));
+}
+
+provider.destroy();
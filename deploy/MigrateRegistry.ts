@@ -0,0 +1,180 @@
+/**
+ * @description Migrates every chain and cid.eth label from an existing ChainRegistry/ChainResolver deployment to a
+ *              new one (sdk/migration.ts), then checks that every 7785 chain ID, CAIP-2 and coinType mapping and every
+ *              label matches. Progress is written to a state file after every transaction; re-running the same
+ *              command resumes a partial migration, skipping whatever the target already holds.
+ *              The source may be on another network (--source-chain=); it defaults to the target network.
+ * @usage       bun run deploy/MigrateRegistry.ts --chain=sepolia --source-registry=0x... --source-resolver=0x... [--source-chain=sepolia] [--source-rpc=http://...] [--from-block=0] [--registry=0x...] [--resolver=0x...] [--state=migration.json] [--dry-run] [--yes]
+ */
+
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { JsonRpcProvider } from "ethers";
+
+import {
+  initSmith,
+  shutdownSmith,
+  loadDeployment,
+  setOrDie,
+} from "./utils.js";
+
+import { init } from "./init.js";
+import { resolveNetwork } from "./networks";
+import { decide, initPlan } from "./plan.js";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import {
+  MigrationContracts,
+  MigrationStep,
+  executeMigration,
+  planMigration,
+  readMigrationSource,
+  stepName,
+  verifyMigration,
+} from "../sdk/migration";
+
+// Initialize deployment
+const { args, chainId, network } = await init();
+
+const sourceRegistry = args.get("source-registry");
+const sourceResolver = args.get("source-resolver");
+setOrDie(sourceRegistry, "Source ChainRegistry (--source-registry=)");
+setOrDie(sourceResolver, "Source ChainResolver (--source-resolver=)");
+
+// --yes migrates without prompting
+const ctx = await initPlan(args, network);
+const statePath = args.get("state") ?? `migration-${chainId}.json`;
+// The source indexer's snapshot, so resuming does not replay the source's events from scratch
+const snapshotPath = statePath.replace(/\.json$/i, "") + ".source.json";
+
+const sourceNetwork = args.get("source-chain")
+  ? await resolveNetwork(args.get("source-chain"), { rpc: args.get("source-rpc") }).catch((e) => {
+      console.error(e.message);
+      process.exit(1);
+    })
+  : { ...network, rpc: args.get("source-rpc") ?? network.rpc };
+const sourceProvider = new JsonRpcProvider(sourceNetwork.rpc, sourceNetwork.chainId, { staticNetwork: true });
+
+//Launch blocksmith
+const { deployerWallet, smith, rl } = await initSmith(network);
+
+const targetRegistry = args.get("registry") ?? (await loadDeployment(chainId, "ChainRegistry")).target;
+const targetResolver = args.get("resolver") ?? (await loadDeployment(chainId, "ChainResolver")).target;
+
+const source: MigrationContracts = {
+  registry: new ChainRegistryClient(sourceRegistry, sourceProvider),
+  resolver: new ChainResolverClient(sourceResolver, sourceProvider),
+};
+const target: MigrationContracts = {
+  registry: new ChainRegistryClient(targetRegistry, deployerWallet),
+  resolver: new ChainResolverClient(targetResolver, deployerWallet),
+};
+
+console.log(`Source: ChainRegistry ${sourceRegistry}, ChainResolver ${sourceResolver} (${sourceNetwork.name})`);
+console.log(`Target: ChainRegistry ${targetRegistry}, ChainResolver ${targetResolver} (${network.name})`);
+
+// A state file from an earlier run must be for the same migration
+const previous = new Map<string, MigrationStep>();
+if (existsSync(statePath)) {
+  const json = JSON.parse(await readFile(statePath, "utf8"));
+  const same = (a: string, b: string) => a?.toLowerCase() === b.toLowerCase();
+  if (
+    !same(json.source?.registry, sourceRegistry) ||
+    !same(json.source?.resolver, sourceResolver) ||
+    !same(json.target?.registry, targetRegistry) ||
+    !same(json.target?.resolver, targetResolver)
+  ) {
+    console.error(`${statePath} is for a different migration. Pass another --state= or remove it.`);
+    await shutdownSmith(rl, smith);
+    process.exit(1);
+  }
+  for (const step of json.steps ?? []) previous.set(stepKey(step), step);
+  console.log(`Resuming from ${statePath}`);
+}
+
+function stepKey(step: MigrationStep) {
+  return step.kind === "assign" ? `assign:${step.node}` : `${step.kind}:${step.chainId}`;
+}
+
+// Read the source, then plan against the target's current state
+const migration = await readMigrationSource({
+  provider: sourceProvider,
+  registry: sourceRegistry,
+  resolver: sourceResolver,
+  snapshotPath,
+  startBlock: Number(args.get("from-block") ?? 0),
+});
+const steps = await planMigration(migration, target);
+
+// Keep transaction hashes from earlier runs for steps that are now skipped
+for (const step of steps) step.txHash = previous.get(stepKey(step))?.txHash ?? null;
+
+for (const step of steps) {
+  console.log(`[${step.status}] ${step.kind} ${stepName(step)}`);
+  if (step.error) console.log(`    error: ${step.error}`);
+}
+
+const pending = steps.filter((x) => x.status === "pending");
+const blocked = steps.filter((x) => x.status === "conflict");
+
+console.log(
+  `${migration.chains.length} chains and ${migration.labels.length} labels: ${pending.length} steps to send, ` +
+    `${steps.length - pending.length - blocked.length} already migrated, ${blocked.length} blocked`
+);
+
+async function writeState() {
+  const json = {
+    chain: chainId,
+    source: { chain: sourceNetwork.chainId, registry: sourceRegistry, resolver: sourceResolver },
+    target: { registry: targetRegistry, resolver: targetResolver },
+    steps,
+  };
+  await writeFile(statePath, JSON.stringify(json, null, 2) + "\n");
+}
+
+if (blocked.length > 0) {
+  console.error("The target holds data that does not match the source. Nothing was submitted.");
+  await shutdownSmith(rl, smith);
+  process.exit(1);
+}
+
+if (ctx.dryRun) {
+  console.log("Dry run: nothing was submitted.");
+  await shutdownSmith(rl, smith);
+  process.exit(0);
+}
+
+if (pending.length > 0) {
+  const shouldMigrate = await decide(ctx, rl, `Send ${pending.length} transactions? (y/n)`, true);
+
+  if (shouldMigrate) {
+    await executeMigration(steps, migration, target, {
+      onStep: async (step) => {
+        if (step.status === "migrated") console.log(`Migrated ${step.kind} ${stepName(step)} (${step.txHash})`);
+        else console.error(`Failed to ${step.kind} ${stepName(step)}: ${step.error}`);
+        // Persist after every transaction so a partial run keeps its progress
+        await writeState();
+      },
+    });
+  }
+}
+
+await writeState();
+console.log(`State written to ${statePath}`);
+
+// Only a complete migration can match the source
+let failed = steps.some((x) => x.status === "failed" || x.status === "pending");
+if (failed) {
+  console.error("The migration is incomplete. Re-run the same command to resume.");
+} else {
+  const mismatches = await verifyMigration(migration, source, target);
+  for (const mismatch of mismatches) console.error(`    mismatch: ${mismatch}`);
+  console.log(mismatches.length === 0 ? "Verified: the target matches the source." : `${mismatches.length} mismatches`);
+  failed = mismatches.length > 0;
+}
+
+//Shutdown
+sourceProvider.destroy();
+await shutdownSmith(rl, smith);
+
+if (failed) process.exit(1);
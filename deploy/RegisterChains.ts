@@ -0,0 +1,147 @@
+/**
+ * @description Registers every chain in a JSON or CSV manifest with the ChainRegistry.
+ *              Validates all entries and dry-runs against the live registry before submitting anything.
+ *              Entries that are already registered are skipped, so re-running a manifest is a no-op.
+ * @usage       bun run deploy/RegisterChains.ts --chain=sepolia --manifest=chains.json [--dry-run] [--yes] [--out=results.json] [--registry=0x...]
+ */
+
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+
+import {
+  initSmith,
+  shutdownSmith,
+  loadDeployment,
+  setOrDie,
+} from "./utils.js";
+
+import { init } from "./init.js";
+import { decide, initPlan } from "./plan.js";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainNameAlreadyRegisteredError, CAIP2HashAlreadyRegisteredError } from "../sdk/errors";
+import { loadManifest } from "../sdk/manifest";
+import { PlannedRegistration, planRegistrations } from "../sdk/registration";
+
+// A single line in the results file
+type RegistrationRecord = {
+  chainName: string;
+  caip2: string;
+  chainId: string;
+  status: "pending" | "registered" | "already-registered" | "failed";
+  txHash: string | null;
+  error?: string;
+};
+
+// Initialize deployment
+const { args, chainId, network } = await init();
+
+const manifestPath = args.get("manifest");
+setOrDie(manifestPath, "Manifest (--manifest=)");
+
+// --yes registers without prompting
+const ctx = await initPlan(args, network);
+const dryRun = ctx.dryRun;
+const resultsPath = args.get("out") ?? manifestPath.replace(/\.(json|csv)$/i, "") + ".results.json";
+
+//Launch blocksmith
+const { deployerWallet, smith, rl } = await initSmith(network);
+
+const registryAddress = args.get("registry") ?? (await loadDeployment(chainId, "ChainRegistry")).target;
+const client = new ChainRegistryClient(registryAddress, deployerWallet);
+
+console.log(`ChainRegistry: ${registryAddress}`);
+
+// Validate and plan every entry before sending anything
+const entries = await loadManifest(manifestPath);
+const plan = await planRegistrations(client, entries);
+
+for (const entry of plan) {
+  const caip2 = `${entry.data.chainNamespace}:${entry.data.chainReference}`;
+  console.log(`[${entry.status}] #${entry.index} ${entry.data.chainName} (${caip2}) -> ${entry.chainId}`);
+  for (const error of entry.errors) console.log(`    error: ${error}`);
+  for (const warning of entry.warnings) console.log(`    warning: ${warning}`);
+}
+
+const toRegister = plan.filter((x) => x.status === "register");
+const blocked = plan.filter((x) => x.status === "invalid" || x.status === "conflict");
+
+console.log(
+  `${entries.length} entries: ${toRegister.length} to register, ` +
+    `${plan.length - toRegister.length - blocked.length} already registered, ${blocked.length} blocked`
+);
+
+if (blocked.length > 0) {
+  console.error("Fix the blocked entries before registering. Nothing was submitted.");
+  await shutdownSmith(rl, smith);
+  process.exit(1);
+}
+
+if (dryRun) {
+  console.log("Dry run: nothing was submitted.");
+  await shutdownSmith(rl, smith);
+  process.exit(0);
+}
+
+// Keep transaction hashes from earlier runs for entries that are now skipped
+const previous = new Map<string, RegistrationRecord>();
+if (existsSync(resultsPath)) {
+  const json = JSON.parse(await readFile(resultsPath, "utf8"));
+  for (const record of json.entries ?? []) previous.set(record.chainId, record);
+}
+
+const records: RegistrationRecord[] = plan.map((entry) => ({
+  chainName: entry.data.chainName,
+  caip2: `${entry.data.chainNamespace}:${entry.data.chainReference}`,
+  chainId: entry.chainId,
+  status: entry.status === "registered" ? "already-registered" : "pending",
+  txHash: previous.get(entry.chainId)?.txHash ?? null,
+}));
+
+async function writeResults() {
+  const json = { chain: chainId, registry: registryAddress, entries: records };
+  await writeFile(resultsPath, JSON.stringify(json, null, 2) + "\n");
+}
+
+async function registerEntry(entry: PlannedRegistration) {
+  const record = records[plan.indexOf(entry)];
+  try {
+    const { chainId, receipt } = await client.register(entry.data);
+    record.status = "registered";
+    record.chainId = chainId;
+    record.txHash = receipt.hash;
+    console.log(`Registered ${entry.data.chainName}: ${chainId} (${receipt.hash})`);
+  } catch (err) {
+    // Registered by someone else since we planned - only a no-op if it is the same chain
+    const racedSameChain =
+      (err instanceof ChainNameAlreadyRegisteredError || err instanceof CAIP2HashAlreadyRegisteredError) &&
+      (await client.contract.caip2HashToChainId(entry.caip2Hash)) === entry.chainId;
+    if (racedSameChain) {
+      record.status = "already-registered";
+      console.log(`${entry.data.chainName} was registered concurrently, skipping`);
+      return;
+    }
+    record.status = "failed";
+    record.error = err instanceof Error ? err.message : String(err);
+    console.error(`Failed to register ${entry.data.chainName}: ${record.error}`);
+  }
+}
+
+if (toRegister.length > 0) {
+  const shouldRegister = await decide(ctx, rl, `Register ${toRegister.length} chains? (y/n)`, true);
+
+  if (shouldRegister) {
+    for (const entry of toRegister) {
+      await registerEntry(entry);
+      // Persist after every transaction so a partial run keeps its progress
+      await writeResults();
+    }
+  }
+}
+
+await writeResults();
+console.log(`Results written to ${resultsPath}`);
+
+//Shutdown
+await shutdownSmith(rl, smith);
+
+if (records.some((x) => x.status === "failed")) process.exit(1);
@@ -0,0 +1,48 @@
+/**
+ * @description Simulates a Safe Transaction Builder batch (deploy/ExportSafeBatch.ts) on a local anvil fork of the
+ *              network: every transaction is executed in order from the impersonated Safe, and any revert is reported
+ *              with its decoded error. Nothing is sent to the real network. Exits non-zero if any call reverts.
+ * @usage       bun run deploy/SimulateSafeBatch.ts --chain=sepolia [--rpc=http://...] --batch=batch.json [--registry=0x...] [--resolver=0x...]
+ */
+
+import { readFile } from "fs/promises";
+import { Foundry } from "@adraffy/blocksmith";
+import { resolveNetwork } from "./networks";
+import { loadDeployment, parseArgs } from "./utils";
+import { SafeBatchFile, simulateSafeBatch } from "../sdk/safe";
+
+const args = await parseArgs(["chain", "batch"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const network = await resolveNetwork(args.get("chain"), { rpc: args.get("rpc") }).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const batch: SafeBatchFile = JSON.parse(await readFile(args.get("batch"), "utf8"));
+
+// Only used to describe the calls by contract name, as deploy/ExportSafeBatch.ts does
+const registryAddress =
+  args.get("registry") ?? (await loadDeployment(network.chainId, "ChainRegistry").catch(() => undefined))?.target;
+const resolverAddress =
+  args.get("resolver") ?? (await loadDeployment(network.chainId, "ChainResolver").catch(() => undefined))?.target;
+const targets = registryAddress ? { registry: registryAddress, resolver: resolverAddress } : undefined;
+
+console.log(`Forking ${network.name} (${network.chainId}) to simulate ${batch.transactions.length} transactions`);
+const foundry = await Foundry.launch({ fork: network.rpc, infoLog: false });
+
+const results = await simulateSafeBatch(foundry.provider, batch, targets).finally(() => foundry.shutdown());
+
+for (const result of results) {
+  const outcome = result.ok ? `ok (gas ${result.gasUsed})` : `REVERTED: ${result.error}`;
+  console.log(`${result.index + 1}. ${result.description}: ${outcome}`);
+}
+
+const reverted = results.filter((x) => !x.ok);
+if (reverted.length > 0) {
+  console.error(`${reverted.length} of ${results.length} calls reverted. The Safe would reject the whole batch.`);
+  process.exit(1);
+}
+console.log(`All ${results.length} calls succeed from Safe ${batch.meta.createdFromSafeAddress}.`);
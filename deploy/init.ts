@@ -5,7 +5,7 @@
  */
 
 import { parseArgs, setOrDie } from "./utils";
-import { CHAIN_MAP } from "./constants";
+import { resolveNetwork } from "./networks";
 import 'dotenv/config'
 
 
@@ -13,7 +13,8 @@ export async function init() {
 
     // Get the deployment arguments
     const requiredArguments = ['chain'];
-    const args: Map<string, string> = await parseArgs(requiredArguments)
+    const flagArguments = ['yes', 'dry-run'];
+    const args: Map<string, string> = await parseArgs(requiredArguments, flagArguments)
         .catch(
             (e) => {
                 console.error(e.message);
@@ -23,25 +24,20 @@ export async function init() {
 
     console.log('Arguments: ', args);
 
-    let chainName;
-    let chainId;
-    let privateKey;
-
-    // Loop over all known chains and see if we have a PK env variable set
-    CHAIN_MAP.forEach((value, key) => {
-
-    const pkKey = `${value.name.toUpperCase().replace('-', '_')}_PK`;
-    value['privateKey'] = process.env[pkKey];
+    // Any network in networks.json (or the built-in local profile); --rpc= overrides its URL
+    const network = await resolveNetwork(args.get('chain'), { rpc: args.get('rpc') })
+        .catch(
+            (e) => {
+                console.error(e.message);
+                process.exit();
+            }
+        );
 
-    if (value.name === args.get('chain')) {
-        chainName = value.name;
-        chainId = value.chain;
-        privateKey = value['privateKey'];
-    }
-    });
+    const chainName = network.name;
+    const chainId = network.chainId;
 
     setOrDie(chainId, 'Chain ID');
-    setOrDie(privateKey, 'Private Key');
 
-    return { args, chainName, chainId, privateKey };
-}
\ No newline at end of file
+    // The deployer signer itself is loaded by initSmith, which may need to prompt for a keystore password
+    return { args, chainName, chainId, network };
+}
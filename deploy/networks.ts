@@ -0,0 +1,269 @@
+/**
+ * @description Network configuration for the deploy, index and server scripts.
+ *              Networks are read from networks.json (or the file in NETWORKS_CONFIG), keyed by the name passed as
+ *              --chain=. String values may reference environment variables as ${NAME}. A built-in `local` profile
+ *              points at anvil on 127.0.0.1:8545 and can be overridden by a `local` entry in the file.
+ *
+ *              {
+ *                "sepolia": {
+ *                  "chainId": 11155111,
+ *                  "rpc": "https://eth-sepolia.g.alchemy.com/v2/${ALCHEMY_API_KEY}",
+ *                  "explorer": { "url": "https://sepolia.etherscan.io" },
+ *                  "verifier": { "type": "etherscan", "apiKey": "${ETHERSCAN_API_KEY}" },
+ *                  "signer": { "type": "env", "variable": "SEPOLIA_PK" }
+ *                }
+ *              }
+ *
+ *              `verifier` is optional (contracts are not verified without one). `signer` defaults to the
+ *              ${NAME}_PK environment variable, e.g. SEPOLIA_PK. Other signer sources (deploy/signers.ts):
+ *
+ *                { "type": "keystore", "path": "keys/deployer.json", "password": { "file": "..." } }
+ *                { "type": "foundry", "account": "deployer", "password": { "env": "DEPLOYER_PASSWORD" } }
+ *                { "type": "json-rpc", "url": "http://127.0.0.1:1248", "address": "0x..." }
+ *
+ *              Keystore passwords are read from `password.env` or `password.file`, or prompted for.
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import "dotenv/config";
+
+// Where a keystore password comes from; prompted for when neither is given
+export type PasswordSource = {
+  readonly env?: string;
+  readonly file?: string;
+};
+
+// Where a network's deployer key comes from
+export type SignerSource =
+  | {
+      // Raw private key in an environment variable
+      readonly type: "env";
+      readonly variable: string;
+      // Used when the variable is not set (only sensible for throwaway local keys)
+      readonly fallback?: string;
+    }
+  | {
+      // Encrypted JSON keystore file
+      readonly type: "keystore";
+      readonly path: string;
+      readonly password?: PasswordSource;
+    }
+  | {
+      // Foundry keystore account (cast wallet import), by default in ~/.foundry/keystores
+      readonly type: "foundry";
+      readonly account: string;
+      readonly keystoreDir?: string;
+      readonly password?: PasswordSource;
+    }
+  | {
+      // External JSON-RPC signer (e.g. Frame, or a Clef-style endpoint) that signs and sends transactions
+      readonly type: "json-rpc";
+      readonly url: string;
+      // Account to use; defaults to the endpoint's first account
+      readonly address?: string;
+    };
+
+export type VerifierConfig = {
+  readonly type: "etherscan" | "blockscout" | "sourcify";
+  // Verifier API URL, when not the default for the type/chain
+  readonly url?: string;
+  readonly apiKey?: string;
+};
+
+export type NetworkConfig = {
+  readonly name: string;
+  readonly chainId: number;
+  readonly rpc: string;
+  readonly explorer?: { readonly url: string };
+  readonly verifier?: VerifierConfig;
+  readonly signer?: SignerSource;
+};
+
+export const DEFAULT_NETWORKS_FILE = path.resolve(__dirname, "../networks.json");
+
+// anvil's first default account - public, never use it anywhere but a local devnet
+const ANVIL_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+export const LOCAL_NETWORK: NetworkConfig = {
+  name: "local",
+  chainId: 31337,
+  rpc: "http://127.0.0.1:8545",
+  signer: { type: "env", variable: "LOCAL_PK", fallback: ANVIL_PRIVATE_KEY },
+};
+
+const VERIFIER_TYPES = ["etherscan", "blockscout", "sourcify"];
+
+// Required string fields per signer type
+const SIGNER_FIELDS: Record<SignerSource["type"], string[]> = {
+  env: ["variable"],
+  keystore: ["path"],
+  foundry: ["account"],
+  "json-rpc": ["url"],
+};
+
+// Replaces ${NAME} references with environment variables
+// Strict mode throws on unset variables; otherwise they become empty strings
+export function interpolateEnv(value: string, env: Record<string, string | undefined> = process.env, strict = true) {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => {
+    const resolved = env[name];
+    if (resolved === undefined && strict) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return resolved ?? "";
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// An optional string field: undefined when absent, an error when present but not a string
+function optionalString(where: string, raw: Record<string, unknown>, field: string): string | undefined {
+  const value = raw[field];
+  if (typeof value === "string") return value;
+  if (value !== undefined) throw new Error(`${where}: "${field}" must be a string`);
+  return undefined;
+}
+
+function validatePassword(where: string, raw: unknown): PasswordSource | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) throw new Error(`${where}: password must be { "env": string } or { "file": string }`);
+  return { env: optionalString(where, raw, "env"), file: optionalString(where, raw, "file") };
+}
+
+function validateSigner(where: string, raw: unknown): SignerSource {
+  const type = isObject(raw) ? raw.type : undefined;
+  if (!isObject(raw) || typeof type !== "string" || !Object.keys(SIGNER_FIELDS).includes(type)) {
+    throw new Error(`${where}: signer.type must be one of ${Object.keys(SIGNER_FIELDS).join(", ")}`);
+  }
+  const required = (field: string): string => {
+    const value = raw[field];
+    if (typeof value !== "string" || !value) throw new Error(`${where}: a ${type} signer needs "${field}"`);
+    return value;
+  };
+
+  // Only the fields each source knows about are kept
+  switch (type as SignerSource["type"]) {
+    case "env":
+      return { type: "env", variable: required("variable"), fallback: optionalString(where, raw, "fallback") };
+    case "keystore":
+      return { type: "keystore", path: required("path"), password: validatePassword(where, raw.password) };
+    case "foundry":
+      return {
+        type: "foundry",
+        account: required("account"),
+        keystoreDir: optionalString(where, raw, "keystoreDir"),
+        password: validatePassword(where, raw.password),
+      };
+    case "json-rpc":
+      return { type: "json-rpc", url: required("url"), address: optionalString(where, raw, "address") };
+  }
+}
+
+// Builds the NetworkConfig from the validated fields only; anything else in the entry is dropped
+function validateNetwork(name: string, raw: unknown, source: string): NetworkConfig {
+  const where = `${source}: network "${name}"`;
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+
+  const { chainId, rpc, explorer, verifier, signer } = raw;
+  if (typeof chainId !== "number" || !Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error(`${where} needs a positive integer chainId`);
+  }
+  if (typeof rpc !== "string" || !rpc) throw new Error(`${where} needs an rpc URL`);
+  if (explorer !== undefined && !(isObject(explorer) && typeof explorer.url === "string")) {
+    throw new Error(`${where}: explorer must be { "url": string }`);
+  }
+  if (verifier !== undefined && !(isObject(verifier) && VERIFIER_TYPES.includes(verifier.type as string))) {
+    throw new Error(`${where}: verifier.type must be one of ${VERIFIER_TYPES.join(", ")}`);
+  }
+
+  return {
+    name,
+    chainId,
+    rpc,
+    explorer: isObject(explorer) ? { url: explorer.url as string } : undefined,
+    verifier: isObject(verifier)
+      ? {
+          type: verifier.type as VerifierConfig["type"],
+          url: optionalString(`${where}: verifier`, verifier, "url"),
+          apiKey: optionalString(`${where}: verifier`, verifier, "apiKey"),
+        }
+      : undefined,
+    signer: signer === undefined ? undefined : validateSigner(where, signer),
+  };
+}
+
+// Loads every configured network (uninterpolated), including the built-in local profile
+// A missing default file just leaves the local profile; a missing explicit file is an error
+export async function loadNetworks(
+  file: string = process.env.NETWORKS_CONFIG ?? DEFAULT_NETWORKS_FILE
+): Promise<Map<string, NetworkConfig>> {
+  const networks = new Map<string, NetworkConfig>([[LOCAL_NETWORK.name, LOCAL_NETWORK]]);
+
+  if (!existsSync(file)) {
+    if (file === DEFAULT_NETWORKS_FILE) return networks;
+    throw new Error(`Networks config ${file} does not exist`);
+  }
+
+  const json = JSON.parse(await readFile(file, "utf8"));
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error(`${file}: expected an object keyed by network name`);
+  }
+  for (const [name, raw] of Object.entries(json)) {
+    networks.set(name, validateNetwork(name, raw, file));
+  }
+  return networks;
+}
+
+export type ResolveNetworkOptions = {
+  // Overrides the configured RPC URL (--rpc=)
+  rpc?: string;
+  file?: string;
+  env?: Record<string, string | undefined>;
+};
+
+// Looks up a network by name and interpolates it
+// The RPC URL must resolve fully; unset variables elsewhere (e.g. a verifier API key) become empty strings
+export async function resolveNetwork(name: string, options: ResolveNetworkOptions = {}): Promise<NetworkConfig> {
+  const networks = await loadNetworks(options.file);
+  const network = networks.get(name);
+  if (!network) {
+    throw new Error(`Unknown network "${name}". Configured networks: ${[...networks.keys()].join(", ")}`);
+  }
+
+  const env = options.env ?? process.env;
+  let rpc: string;
+  try {
+    rpc = options.rpc ?? interpolateEnv(network.rpc, env);
+  } catch (err) {
+    throw new Error(`Network "${name}" rpc: ${(err as Error).message} (or pass --rpc=)`);
+  }
+
+  return {
+    ...network,
+    rpc,
+    explorer: network.explorer && { url: interpolateEnv(network.explorer.url, env, false) },
+    verifier: network.verifier && {
+      ...network.verifier,
+      url: network.verifier.url && interpolateEnv(network.verifier.url, env, false),
+      apiKey: network.verifier.apiKey && interpolateEnv(network.verifier.apiKey, env, false),
+    },
+  };
+}
+
+// The signer source for a network, defaulting to ${NAME}_PK
+export function signerSource(network: NetworkConfig): SignerSource {
+  return network.signer ?? { type: "env", variable: `${network.name.toUpperCase().replace(/-/g, "_")}_PK` };
+}
+
+// Reads the deployer private key for an env signer source (undefined for any other source)
+export function signerPrivateKey(
+  network: NetworkConfig,
+  env: Record<string, string | undefined> = process.env
+): string | undefined {
+  const source = signerSource(network);
+  if (source.type !== "env") return undefined;
+  return env[source.variable] || source.fallback;
+}
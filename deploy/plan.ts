@@ -0,0 +1,154 @@
+/**
+ * @description Declarative deployment plans so the deploy scripts can run unattended.
+ *              A plan lists, per library/contract, whether to deploy and whether to verify it.
+ *              With --yes or --plan= the scripts follow the plan instead of prompting.
+ *              With --dry-run they print every action and predicted address without sending transactions.
+ * @usage       bun run deploy/DeployChainRegistry.ts --chain=sepolia --plan=deploy/plan.example.json --dry-run
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import { getAddress, getCreateAddress } from "ethers";
+import { NetworkConfig } from "./networks";
+import { deployContract, loadDeployment, promptContinueOrExit, verifyContract } from "./utils";
+
+// What to do with a single library or contract
+export type PlanStep = {
+  readonly deploy: boolean;
+  readonly verify: boolean;
+};
+
+// Keyed by contract name (e.g. CAIP2, ChainRegistry)
+export type DeploymentPlan = Record<string, PlanStep>;
+
+// Deploy and verify everything
+export const DEFAULT_PLAN: DeploymentPlan = {
+  CAIP2: { deploy: true, verify: true },
+  ENSCoinType: { deploy: true, verify: true },
+  ERC7785ChainId: { deploy: true, verify: true },
+  ChainRegistry: { deploy: true, verify: true },
+  ChainResolver: { deploy: true, verify: true },
+};
+
+export type PlanContext = {
+  readonly plan: DeploymentPlan;
+  // Follow the plan without prompting
+  readonly unattended: boolean;
+  // Print actions and predicted addresses, send nothing
+  readonly dryRun: boolean;
+  readonly chainId: number;
+  readonly network: NetworkConfig;
+  // Next nonce of the deployer, used to predict CREATE addresses during a dry run
+  nonce?: number;
+};
+
+// Loads a JSON plan, filling anything it does not mention from DEFAULT_PLAN
+export async function loadPlan(file: string): Promise<DeploymentPlan> {
+  const json: unknown = JSON.parse(await readFile(file, "utf8"));
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error(`${file}: expected an object keyed by contract name`);
+  }
+  const plan: Record<string, PlanStep> = { ...DEFAULT_PLAN };
+  for (const [name, step] of Object.entries(json as Record<string, unknown>)) {
+    const { deploy, verify } = (typeof step === "object" && step !== null ? step : {}) as Record<string, unknown>;
+    if (typeof deploy !== "boolean" || typeof verify !== "boolean") {
+      throw new Error(`Plan entry ${name} must be { "deploy": boolean, "verify": boolean }`);
+    }
+    plan[name] = { deploy, verify };
+  }
+  return plan;
+}
+
+// Builds the plan context from the --yes, --plan= and --dry-run arguments
+export async function initPlan(args: Map<string, string>, network: NetworkConfig): Promise<PlanContext> {
+  const planFile = args.get("plan");
+  const dryRun = args.get("dry-run") === "true";
+  const plan = planFile ? await loadPlan(planFile) : DEFAULT_PLAN;
+  const unattended = dryRun || !!planFile || args.get("yes") === "true";
+
+  if (unattended) {
+    console.log(`Running unattended${dryRun ? " (dry run)" : ""} with plan:`, plan);
+  }
+
+  return { plan, unattended, dryRun, chainId: network.chainId, network };
+}
+
+// Returns the step for a contract, defaulting to skip for anything the plan does not know
+export function planStep(ctx: PlanContext, name: string): PlanStep {
+  return ctx.plan[name] ?? { deploy: false, verify: false };
+}
+
+// Answers a yes/no question from the plan when unattended, otherwise prompts
+export async function decide(ctx: PlanContext, rl, question: string, planned: boolean): Promise<boolean> {
+  if (!ctx.unattended) {
+    return promptContinueOrExit(rl, question);
+  }
+  console.log(`${question} ${planned ? "y" : "n"} (plan)`);
+  return planned;
+}
+
+// Saved blocksmith deployments live in deployments/<chainId>/<name>.json
+function hasDeployment(chainId: number, contractName: string) {
+  return existsSync(path.resolve(__dirname, `../deployments/${chainId}/${contractName}.json`));
+}
+
+// The address of a contract an earlier deploy script deployed: the override (e.g. --registry=) when given, else its
+// saved deployment. A dry run of the earlier script saves nothing, so on a fresh network the address it predicted has
+// to be passed in
+export async function planDependency(ctx: PlanContext, contractName: string, flag: string, override?: string) {
+  if (override) return getAddress(override);
+  if (hasDeployment(ctx.chainId, contractName)) {
+    const { target } = await loadDeployment(ctx.chainId, contractName);
+    return target as string;
+  }
+  throw new Error(
+    `${contractName} is not deployed on chain ${ctx.chainId} (no deployments/${ctx.chainId}/${contractName}.json). ` +
+      `Deploy it first, or pass its address (e.g. the one a dry run predicted) as --${flag}=`
+  );
+}
+
+// Deploys a contract, or during a dry run reports the existing or predicted address
+export async function planDeploy(
+  ctx: PlanContext,
+  smith,
+  deployerWallet,
+  contractName: string,
+  contractArgs: unknown[],
+  libs = {}
+): Promise<{ contract?; contractAddress: string; already: boolean }> {
+  if (!ctx.dryRun) {
+    return deployContract(smith, deployerWallet, contractName, contractArgs, libs);
+  }
+
+  if (hasDeployment(ctx.chainId, contractName)) {
+    const { target } = await loadDeployment(ctx.chainId, contractName);
+    console.log(`[dry-run] ${contractName} is already deployed to ${target}. Would skip deployment.`);
+    return { contractAddress: target, already: true };
+  }
+
+  ctx.nonce ??= await deployerWallet.getNonce();
+  const contractAddress = getCreateAddress({ from: await deployerWallet.getAddress(), nonce: ctx.nonce++ });
+  console.log(`[dry-run] Would deploy ${contractName} (args: ${JSON.stringify(contractArgs)}) to ${contractAddress}`);
+  return { contractAddress, already: false };
+}
+
+// Verifies a contract, or during a dry run just reports that it would
+export async function planVerify(
+  ctx: PlanContext,
+  contract,
+  contractName: string,
+  contractArgs: unknown[],
+  libs: {},
+  smith
+) {
+  if (!ctx.network.verifier) {
+    console.log(`No verifier configured for ${ctx.network.name}. Skipping verification of ${contractName}.`);
+    return;
+  }
+  if (ctx.dryRun) {
+    console.log(`[dry-run] Would verify ${contractName} with ${ctx.network.verifier.type}`);
+    return;
+  }
+  await verifyContract(ctx.chainId, contract, contractName, contractArgs, libs, smith, ctx.network.verifier);
+}
@@ -0,0 +1,124 @@
+/**
+ * @description Builds the deployer signer for a network from its signer source (deploy/networks.ts):
+ *              a raw private key from the environment, an encrypted JSON keystore, a Foundry keystore account or an
+ *              external JSON-RPC signer. Every source yields an ethers Signer, so deployContract and the registration
+ *              tooling work the same with any of them.
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { JsonRpcProvider, Provider, Signer, Wallet, getAddress } from "ethers";
+import { NetworkConfig, PasswordSource, SignerSource, signerPrivateKey, signerSource } from "./networks";
+
+export type LoadSignerOptions = {
+  env?: Record<string, string | undefined>;
+  // Asks for a keystore password when the source does not name an env variable or file
+  prompt?: (question: string) => Promise<string>;
+};
+
+export const FOUNDRY_KEYSTORE_DIR = path.join(homedir(), ".foundry", "keystores");
+
+// "~/keys/a.json" -> "/home/me/keys/a.json"
+function expandHome(file: string): string {
+  return file === "~" || file.startsWith("~/") ? path.join(homedir(), file.slice(1)) : file;
+}
+
+// A short human readable description of a signer source, for logs and errors
+export function describeSigner(source: SignerSource): string {
+  switch (source.type) {
+    case "env":
+      return `private key in ${source.variable}`;
+    case "keystore":
+      return `keystore ${source.path}`;
+    case "foundry":
+      return `Foundry keystore account ${source.account}`;
+    case "json-rpc":
+      return `JSON-RPC signer at ${source.url}${source.address ? ` (${source.address})` : ""}`;
+  }
+}
+
+async function readPassword(
+  source: PasswordSource | undefined,
+  description: string,
+  options: LoadSignerOptions
+): Promise<string> {
+  const env = options.env ?? process.env;
+
+  if (source?.env) {
+    const password = env[source.env];
+    if (password === undefined) throw new Error(`Password for ${description}: ${source.env} is not set`);
+    return password;
+  }
+  if (source?.file) {
+    // Trailing newlines are almost always an editor artifact, not part of the password
+    return (await readFile(expandHome(source.file), "utf8")).replace(/\r?\n$/, "");
+  }
+  if (!options.prompt) {
+    throw new Error(`No password source for ${description}: set password.env or password.file, or run interactively`);
+  }
+  return options.prompt(`Password for ${description}: `);
+}
+
+async function decryptKeystore(
+  file: string,
+  password: PasswordSource | undefined,
+  description: string,
+  options: LoadSignerOptions
+): Promise<Wallet> {
+  if (!existsSync(file)) throw new Error(`${description}: ${file} does not exist`);
+  const json = await readFile(file, "utf8");
+  const secret = await readPassword(password, description, options);
+  try {
+    return (await Wallet.fromEncryptedJson(json, secret)) as Wallet;
+  } catch (err) {
+    throw new Error(`Could not decrypt ${description}: ${(err as Error).message}`);
+  }
+}
+
+// Loads the network's deployer signer, connected to `provider` (JSON-RPC signers use their own endpoint)
+export async function loadSigner(
+  network: NetworkConfig,
+  provider: Provider,
+  options: LoadSignerOptions = {}
+): Promise<Signer> {
+  const source = signerSource(network);
+  const description = describeSigner(source);
+
+  switch (source.type) {
+    case "env": {
+      const privateKey = signerPrivateKey(network, options.env);
+      if (!privateKey) throw new Error(`No deployer key: ${source.variable} is not set`);
+      return new Wallet(privateKey, provider);
+    }
+
+    case "keystore": {
+      const wallet = await decryptKeystore(expandHome(source.path), source.password, description, options);
+      return wallet.connect(provider);
+    }
+
+    case "foundry": {
+      const dir = expandHome(source.keystoreDir ?? FOUNDRY_KEYSTORE_DIR);
+      const wallet = await decryptKeystore(path.join(dir, source.account), source.password, description, options);
+      return wallet.connect(provider);
+    }
+
+    case "json-rpc": {
+      // The endpoint signs and sends, so it must be on the same chain as the network
+      const endpoint = new JsonRpcProvider(source.url, undefined, { staticNetwork: true });
+      const { chainId } = await endpoint.getNetwork();
+      if (chainId !== BigInt(network.chainId)) {
+        endpoint.destroy();
+        throw new Error(`${description} is on chain ${chainId}, but network "${network.name}" is chain ${network.chainId}`);
+      }
+      const accounts: string[] = await endpoint.send("eth_accounts", []);
+      const address = source.address ?? accounts[0];
+      if (!address || !accounts.some((x) => x.toLowerCase() === address.toLowerCase())) {
+        endpoint.destroy();
+        throw new Error(`${description} does not manage ${address ?? "any account"}`);
+      }
+      return endpoint.getSigner(getAddress(address));
+    }
+  }
+}
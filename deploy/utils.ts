@@ -6,8 +6,9 @@
 
 import { Foundry, execCmd } from "@adraffy/blocksmith";
 import readline from "node:readline";
-import { JsonRpcProvider, Wallet, Contract } from "ethers";
-import { CHAIN_MAP } from "./constants";
+import { JsonRpcProvider, Contract } from "ethers";
+import { NetworkConfig, VerifierConfig, signerSource } from "./networks";
+import { describeSigner, loadSigner } from "./signers";
 import { readFile } from "fs/promises";
 import path from "path";
 
@@ -21,8 +22,10 @@ export async function createReadlineInterface() {
 }
 
 // Parse command line arguments, verifying the presence of all required arguments
+// Arguments listed in `flags` may be passed without a value (e.g. --yes) and are then set to "true"
 export async function parseArgs(
-  requiredArgs: string[]
+  requiredArgs: string[],
+  flags: string[] = []
 ): Promise<Map<string, string>> {
   return new Promise((resolve, reject) => {
     const args = process.argv.slice(2); // Skip the first two arguments (node and script path)
@@ -33,6 +36,11 @@ export async function parseArgs(
       const [key, value] = arg.split("=");
       const argKey = key.replace(/^--/, ""); // Remove leading '--' from argument name
 
+      if (value === undefined && flags.includes(argKey)) {
+        parsedArgs.set(argKey, "true");
+        return;
+      }
+
       if (!value) {
         reject(new Error(`Argument ${key} requires a value.`));
         return;
@@ -81,21 +89,44 @@ export const promptContinueOrExit = async (
     process.exit(0); // Exit the process
   } else {
     console.log('Invalid input. Please enter "y" to continue or "n" to skip.');
-    return await promptContinueOrExit(question); // Prompt again
+    return await promptContinueOrExit(rl, question); // Prompt again
   }
 };
 
-// Initializes a blocksmith instance for the specified chain
-export const initSmith = async (chain: number, privateKey) => {
-  const PROVIDER_URL = CHAIN_MAP.get(chain).rpc;
-  const PRIVATE_KEY = privateKey;
+// Asks a question without echoing the answer (e.g. a keystore password)
+export const askSecret = (rl, query: string): Promise<string> => {
+  return new Promise((resolve) => {
+    const write = rl._writeToOutput;
+    rl._writeToOutput = (text: string) => {
+      if (text.includes(query)) write.call(rl, text);
+    };
+    rl.question(query, (answer) => {
+      rl._writeToOutput = write;
+      rl.output.write("\n");
+      resolve(answer);
+    });
+  });
+};
+
+// Initializes a blocksmith instance for the specified network
+export const initSmith = async (network: NetworkConfig) => {
+  const PROVIDER_URL = network.rpc;
 
-  console.log(`Initializing Smith for ${chain} ...`);
+  console.log(`Initializing Smith for ${network.name} (${network.chainId}) ...`);
 
   const provider = new JsonRpcProvider(PROVIDER_URL);
 
-  // Create a wallet instance from the private key
-  const deployerWallet = new Wallet(PRIVATE_KEY, provider);
+  // Guard against an --rpc= override (or a config typo) pointing at a different chain
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== BigInt(network.chainId)) {
+    throw new Error(`RPC ${PROVIDER_URL} is chain ${chainId}, but network "${network.name}" is chain ${network.chainId}`);
+  }
+
+  const rl = await createReadlineInterface();
+
+  // Load the deployer from the network's signer source (private key, keystore or external signer)
+  const deployerWallet = await loadSigner(network, provider, { prompt: (question) => askSecret(rl, question) });
+  console.log(`Deployer: ${await deployerWallet.getAddress()} (${describeSigner(signerSource(network))})`);
 
   //Launch blocksmith
   const smith = await Foundry.launchLive({
@@ -105,8 +136,6 @@ export const initSmith = async (chain: number, privateKey) => {
     wallets: [deployerWallet],
   });
 
-  const rl = await createReadlineInterface();
-
   return { deployerWallet, smith, rl };
 };
 
@@ -148,7 +177,7 @@ export const deployContract = async (
   };
 };
 
-// Verifies a contract on Etherscan
+// Verifies a contract with the network's verifier (Etherscan by default)
 export const verifyContract = async (
   chainId: number,
   contract: Contract,
@@ -156,7 +185,7 @@ export const verifyContract = async (
   contractArgs: any[],
   libs: {},
   smith,
-  apiKey: string = process.env.ETHERSCAN_API_KEY || ""
+  verifier: VerifierConfig = { type: "etherscan", apiKey: process.env.ETHERSCAN_API_KEY || "" }
 ) => {
   //console.log(apiKey);
   const { target: contractAddress, links = [] } = contract;
@@ -192,16 +221,22 @@ export const verifyContract = async (
     contractAddress,
     nameOrFQN,
     "--watch",
-    "--etherscan-api-key",
-    apiKey,
-    //'--verifier-url',
-    //`https://api.etherscan.io/v2/api`,
+    "--verifier",
+    verifier.type,
     "--chain",
     //'sepolia',
     //'--chain-id',
     chainId,
   ];
 
+  if (verifier.url) {
+    commandArgs.push("--verifier-url", verifier.url);
+  }
+
+  if (verifier.apiKey) {
+    commandArgs.push(verifier.type === "etherscan" ? "--etherscan-api-key" : "--verifier-api-key", verifier.apiKey);
+  }
+
   if (contractArgs.length > 0) {
     commandArgs.push("--constructor-args");
     commandArgs.push(encodedArgs);
@@ -0,0 +1,103 @@
+/**
+ * @description CAIP-2 toolkit: parse, validate, format and hash chain identifiers the way the
+ *              registry does (src/libs/CAIP2.sol). Also accepts CAIP-10 account IDs.
+ * @see         https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-2.md
+ * @see         https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-10.md
+ */
+
+import { AbiCoder, keccak256 } from "ethers";
+
+// CAIP-2 grammar
+export const CAIP2_NAMESPACE_REGEX = /^[-a-z0-9]{3,8}$/;
+export const CAIP2_REFERENCE_REGEX = /^[-_a-zA-Z0-9]{1,32}$/;
+
+// CAIP-10 account address grammar
+export const CAIP10_ADDRESS_REGEX = /^[-.%a-zA-Z0-9]{1,128}$/;
+
+// A CAIP-2 chain identifier split into its parts (as passed to ChainRegistry.chainDataFromCaip2)
+export type Caip2 = {
+  readonly namespace: string;
+  readonly reference: string;
+};
+
+// A CAIP-10 account identifier
+export type Caip10 = Caip2 & {
+  readonly address: string;
+};
+
+// Returns a list of reasons why the namespace/reference pair is not valid CAIP-2 (empty if valid)
+export function caip2Errors(namespace: string, reference: string): string[] {
+  const errors: string[] = [];
+  if (!CAIP2_NAMESPACE_REGEX.test(namespace)) {
+    errors.push(`Invalid CAIP-2 namespace "${namespace}": must match ${CAIP2_NAMESPACE_REGEX}`);
+  }
+  if (!CAIP2_REFERENCE_REGEX.test(reference)) {
+    errors.push(`Invalid CAIP-2 reference "${reference}": must match ${CAIP2_REFERENCE_REGEX}`);
+  }
+  return errors;
+}
+
+export function isValidCaip2(namespace: string, reference: string): boolean {
+  return caip2Errors(namespace, reference).length === 0;
+}
+
+// Throws if the namespace/reference pair is not valid CAIP-2
+export function validateCaip2(namespace: string, reference: string) {
+  const errors = caip2Errors(namespace, reference);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+}
+
+// Parses "namespace:reference" (e.g. "eip155:8453")
+export function parseCaip2(caip2: string): Caip2 {
+  const parts = caip2.split(":");
+  if (parts.length !== 2) {
+    throw new Error(`Invalid CAIP-2 identifier "${caip2}": expected namespace:reference`);
+  }
+  const [namespace, reference] = parts;
+  validateCaip2(namespace, reference);
+  return { namespace, reference };
+}
+
+// Formats a namespace/reference pair as "namespace:reference"
+export function formatCaip2({ namespace, reference }: Caip2): string {
+  validateCaip2(namespace, reference);
+  return `${namespace}:${reference}`;
+}
+
+// Parses "namespace:reference:address" (e.g. "eip155:1:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb")
+export function parseCaip10(caip10: string): Caip10 {
+  const parts = caip10.split(":");
+  if (parts.length !== 3) {
+    throw new Error(`Invalid CAIP-10 identifier "${caip10}": expected namespace:reference:address`);
+  }
+  const [namespace, reference, address] = parts;
+  validateCaip2(namespace, reference);
+  if (!CAIP10_ADDRESS_REGEX.test(address)) {
+    throw new Error(`Invalid CAIP-10 address "${address}": must match ${CAIP10_ADDRESS_REGEX}`);
+  }
+  return { namespace, reference, address };
+}
+
+// Accepts either a CAIP-2 or a CAIP-10 identifier and returns the CAIP-2 part
+export function toCaip2(id: string): Caip2 {
+  const parts = id.split(":");
+  if (parts.length === 3) {
+    const { namespace, reference } = parseCaip10(id);
+    return { namespace, reference };
+  }
+  return parseCaip2(id);
+}
+
+// Computes the CAIP-2 hash exactly as CAIP2.computeCaip2Hash does
+// NOTE: this is keccak256(abi.encode(namespace, ":", reference)), NOT keccak256("namespace:reference")
+// Does not validate: the registry hashes whatever strings it is given
+export function computeCaip2Hash(namespace: string, reference: string): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["string", "string", "string"],
+      [namespace, ":", reference]
+    )
+  );
+}
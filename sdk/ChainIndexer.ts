@@ -0,0 +1,235 @@
+/**
+ * @description Builds a local snapshot of every chain registered in a ChainRegistry and every label assigned in a
+ *              ChainResolver by replaying their events. The registry has no enumeration function, and NodeAssigned
+ *              only carries the hash of its label, so:
+ *              - ChainData is rebuilt by calling chainDataFromId for each ChainRegistered chain ID
+ *              - labels are recovered from the calldata of the transaction that emitted NodeAssigned
+ *              - supersessions and deprecations are recorded from ChainSuperseded and ChainDeprecated
+ *              The snapshot is saved as JSON and updated incrementally from the last indexed block.
+ * @usage       const indexer = new ChainIndexer({ provider, registry, resolver, snapshotPath: "snapshot.json" });
+ *              const snapshot = await indexer.sync();
+ */
+
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { Contract, Interface, Provider, id } from "ethers";
+import { CHAIN_REGISTRY_ABI, CHAIN_RESOLVER_ABI } from "./abis";
+import { computeNode } from "./ChainResolver";
+import { decodeChainData } from "./ChainRegistryClient";
+
+// A registered chain, with numeric fields as decimal strings so the snapshot is plain JSON
+export type IndexedChain = {
+  chainId: string;
+  exists: boolean;
+  chainName: string;
+  settlementChainId: string;
+  version: string;
+  rollupContract: string;
+  chainNamespace: string;
+  chainReference: string;
+  coinType: string;
+  // Lifecycle (ChainSuperseded/ChainDeprecated); absent in snapshots written before the registry had one
+  supersededBy?: string | null;
+  deprecated?: boolean;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+// A cid.eth label assignment; label is null when it could not be recovered from calldata
+export type IndexedLabel = {
+  node: string;
+  label: string | null;
+  labelHash: string;
+  chainId: string;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+export type Snapshot = {
+  network: number;
+  registry: string;
+  resolver: string | null;
+  startBlock: number;
+  // Last block included in the snapshot
+  lastBlock: number;
+  // Keyed by 7785 chain ID
+  chains: Record<string, IndexedChain>;
+  // Keyed by ENS node
+  labels: Record<string, IndexedLabel>;
+};
+
+export type ChainIndexerOptions = {
+  provider: Provider;
+  registry: string;
+  resolver?: string;
+  // Where the snapshot is loaded from and saved to (optional: in-memory only when omitted)
+  snapshotPath?: string;
+  // First block to scan when there is no snapshot yet
+  startBlock?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+};
+
+const registryIface = new Interface(CHAIN_REGISTRY_ABI);
+const resolverIface = new Interface(CHAIN_RESOLVER_ABI);
+
+// Registry lifecycle events, indexed alongside ChainRegistered
+const LIFECYCLE_TOPICS = [id("ChainSuperseded(bytes32,bytes32)"), id("ChainDeprecated(bytes32)")];
+
+const ASSIGN_SELECTORS = ["assign", "demoAssign"].map((name) => resolverIface.getFunction(name).selector.slice(2));
+
+// Finds the label that hashes to `node` in a transaction's calldata
+// The assign call may be the top-level call or nested (e.g. inside a Safe multiSend), so every
+// occurrence of the assign/demoAssign selectors is tried
+export function recoverLabel(calldata: string, node: string): string | null {
+  const hex = calldata.toLowerCase().replace(/^0x/, "");
+  for (const selector of ASSIGN_SELECTORS) {
+    for (let i = hex.indexOf(selector); i !== -1; i = hex.indexOf(selector, i + 1)) {
+      // Selectors inside ABI encoded data are not necessarily byte aligned relative to the start
+      if (i % 2 !== 0) continue;
+      try {
+        const parsed = resolverIface.parseTransaction({ data: "0x" + hex.slice(i) });
+        const label: string = parsed?.args[0];
+        if (typeof label === "string" && computeNode(label) === node) return label;
+      } catch {}
+    }
+  }
+  return null;
+}
+
+export class ChainIndexer {
+  readonly provider: Provider;
+  readonly registry: Contract;
+  readonly resolver: Contract | null;
+  readonly snapshotPath?: string;
+  readonly startBlock: number;
+  readonly batchSize: number;
+
+  constructor(options: ChainIndexerOptions) {
+    this.provider = options.provider;
+    this.registry = new Contract(options.registry, CHAIN_REGISTRY_ABI, options.provider);
+    this.resolver = options.resolver ? new Contract(options.resolver, CHAIN_RESOLVER_ABI, options.provider) : null;
+    this.snapshotPath = options.snapshotPath;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 10_000;
+  }
+
+  // Loads the saved snapshot, or an empty one if there is none (or it is for other contracts)
+  async load(): Promise<Snapshot> {
+    const { chainId } = await this.provider.getNetwork();
+    const empty: Snapshot = {
+      network: Number(chainId),
+      registry: this.registry.target as string,
+      resolver: (this.resolver?.target as string) ?? null,
+      startBlock: this.startBlock,
+      lastBlock: this.startBlock - 1,
+      chains: {},
+      labels: {},
+    };
+
+    if (!this.snapshotPath || !existsSync(this.snapshotPath)) return empty;
+
+    const saved: Snapshot = JSON.parse(await readFile(this.snapshotPath, "utf8"));
+    if (
+      saved.network !== empty.network ||
+      saved.registry.toLowerCase() !== empty.registry.toLowerCase() ||
+      (saved.resolver ?? "").toLowerCase() !== (empty.resolver ?? "").toLowerCase()
+    ) {
+      throw new Error(`Snapshot ${this.snapshotPath} was built for different contracts or a different network`);
+    }
+    return saved;
+  }
+
+  async save(snapshot: Snapshot) {
+    if (!this.snapshotPath) return;
+    await writeFile(this.snapshotPath, JSON.stringify(snapshot, null, 2) + "\n");
+  }
+
+  // Scans from the last indexed block to `toBlock` (default: latest) and saves the updated snapshot
+  async sync(toBlock?: number): Promise<Snapshot> {
+    const snapshot = await this.load();
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+
+    for (let from = snapshot.lastBlock + 1; from <= head; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, head);
+
+      await this.indexChains(snapshot, from, to);
+      if (this.resolver) await this.indexLabels(snapshot, from, to);
+
+      // Save after every batch so an interrupted sync resumes where it stopped
+      snapshot.lastBlock = to;
+      await this.save(snapshot);
+    }
+
+    return snapshot;
+  }
+
+  private async indexChains(snapshot: Snapshot, fromBlock: number, toBlock: number) {
+    const logs = await this.provider.getLogs({
+      address: this.registry.target as string,
+      topics: [[id("ChainRegistered(bytes32,string)"), ...LIFECYCLE_TOPICS]],
+      fromBlock,
+      toBlock,
+    });
+
+    for (const log of logs) {
+      const parsed = registryIface.parseLog(log);
+      if (parsed.name === "ChainSuperseded") {
+        const old = snapshot.chains[parsed.args.oldChainId];
+        if (old) old.supersededBy = parsed.args.newChainId;
+        continue;
+      }
+      if (parsed.name === "ChainDeprecated") {
+        const chain = snapshot.chains[parsed.args.chainId];
+        if (chain) chain.deprecated = true;
+        continue;
+      }
+
+      const { chainId } = parsed.args;
+      const [exists, result] = await this.registry.chainDataFromId(chainId);
+      const data = decodeChainData(result);
+
+      snapshot.chains[chainId] = {
+        chainId,
+        exists,
+        ...data,
+        settlementChainId: data.settlementChainId.toString(),
+        coinType: data.coinType.toString(),
+        supersededBy: null,
+        deprecated: false,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      };
+    }
+  }
+
+  private async indexLabels(snapshot: Snapshot, fromBlock: number, toBlock: number) {
+    const logs = await this.provider.getLogs({
+      address: this.resolver.target as string,
+      topics: [id("NodeAssigned(bytes32,string,bytes32)")],
+      fromBlock,
+      toBlock,
+    });
+
+    // Several assignments can share a transaction, so fetch each transaction once
+    const calldata = new Map<string, string>();
+
+    for (const log of logs) {
+      const [, node, labelHash, chainId] = log.topics;
+
+      if (!calldata.has(log.transactionHash)) {
+        const tx = await this.provider.getTransaction(log.transactionHash);
+        calldata.set(log.transactionHash, tx?.data ?? "0x");
+      }
+
+      snapshot.labels[node] = {
+        node,
+        label: recoverLabel(calldata.get(log.transactionHash), node),
+        labelHash,
+        chainId,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      };
+    }
+  }
+}
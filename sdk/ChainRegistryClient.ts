@@ -0,0 +1,181 @@
+/**
+ * @description Typed client for the ChainRegistry contract.
+ *              Lookups return decoded ChainData (or null), and registration reverts are mapped to typed errors.
+ *              Superseded chains can be followed to their current entry, or listed as a history.
+ * @usage       const client = new ChainRegistryClient(address, providerOrSigner);
+ *              const base = await client.chainDataFromCaip2("eip155", "8453");
+ */
+
+import {
+  BigNumberish,
+  Contract,
+  ContractRunner,
+  ContractTransactionReceipt,
+  Interface,
+  Result,
+  ZeroHash,
+} from "ethers";
+import { CHAIN_REGISTRY_ABI } from "./abis";
+import { InteroperableAddress, interopToCaip2, parseInteroperableAddress } from "./ERC7930";
+import { toChainRegistryError } from "./errors";
+import { computeChainId } from "./ERC7785ChainId";
+import { CHAIN_STATUSES, ChainData, ChainStatus, RegisteredChainData } from "./types";
+
+// The outcome of a successful registration
+export type RegistrationResult = {
+  readonly chainId: string;
+  readonly receipt: ContractTransactionReceipt;
+};
+
+// One entry in a chain's supersession history
+// exists mirrors chainDataFromId (false when rollupContract is zero); the data is returned either way
+export type ChainHistoryEntry = RegisteredChainData & {
+  readonly exists: boolean;
+  readonly status: ChainStatus;
+};
+
+// Converts the ChainData tuple returned by the registry into a plain object
+export function decodeChainData(result: Result): Omit<RegisteredChainData, "chainId"> {
+  return {
+    chainName: result.chainName,
+    settlementChainId: result.settlementChainId,
+    version: result.version,
+    rollupContract: result.rollupContract,
+    chainNamespace: result.chainNamespace,
+    chainReference: result.chainReference,
+    coinType: result.coinType,
+  };
+}
+
+// Flattens a ChainData object into the struct tuple expected by register/demoRegister
+export function encodeChainData(data: ChainData) {
+  return {
+    chainName: data.chainName,
+    settlementChainId: data.settlementChainId,
+    version: data.version,
+    rollupContract: data.rollupContract,
+    chainNamespace: data.chainNamespace,
+    chainReference: data.chainReference,
+    coinType: data.coinType,
+  };
+}
+
+export class ChainRegistryClient {
+  readonly contract: Contract;
+
+  constructor(readonly target: string, runner: ContractRunner) {
+    this.contract = new Contract(target, CHAIN_REGISTRY_ABI, runner);
+  }
+
+  get interface(): Interface {
+    return this.contract.interface;
+  }
+
+  // Returns the chain registered under a 7785 chain ID, or null
+  async chainDataFromId(chainId: string): Promise<RegisteredChainData | null> {
+    const [exists, data] = await this.contract.chainDataFromId(chainId);
+    return this.toRegistered(exists, data);
+  }
+
+  // Returns the chain registered under a CAIP-2 namespace/reference pair, or null
+  async chainDataFromCaip2(namespace: string, reference: string): Promise<RegisteredChainData | null> {
+    const [exists, data] = await this.contract.chainDataFromCaip2(namespace, reference);
+    return this.toRegistered(exists, data);
+  }
+
+  // Returns the chain mapped to an ENS coinType, or null
+  async chainDataFromEnsCoinType(coinType: BigNumberish): Promise<RegisteredChainData | null> {
+    const [exists, data] = await this.contract.chainDataFromEnsCoinType(coinType);
+    return this.toRegistered(exists, data);
+  }
+
+  // Returns the chain an ERC-7930 interoperable address (binary, or text form containing "@") lives on, or null
+  async chainDataFromInteroperableAddress(
+    interop: InteroperableAddress | string
+  ): Promise<RegisteredChainData | null> {
+    const value = typeof interop === "string" && interop.includes("@") ? parseInteroperableAddress(interop) : interop;
+    const { namespace, reference } = interopToCaip2(value);
+    return this.chainDataFromCaip2(namespace, reference);
+  }
+
+  // Owner-gated registration
+  async register(data: ChainData): Promise<RegistrationResult> {
+    return this.send("register", data);
+  }
+
+  // DEMO-ONLY: unrestricted registration
+  async demoRegister(data: ChainData): Promise<RegistrationResult> {
+    return this.send("demoRegister", data);
+  }
+
+  // Owner-gated replacement of a chain's data; CAIP-2 and coinType lookups move to the returned 7785 chain ID
+  async supersede(oldChainId: string, data: ChainData): Promise<RegistrationResult> {
+    const receipt = await this.transact("supersede", oldChainId, encodeChainData(data));
+    return { chainId: this.chainIdFromReceipt(receipt), receipt };
+  }
+
+  // Owner-gated retirement of a chain without a replacement
+  async deprecate(chainId: string): Promise<ContractTransactionReceipt> {
+    return this.transact("deprecate", chainId);
+  }
+
+  async chainStatus(chainId: string): Promise<ChainStatus> {
+    return CHAIN_STATUSES[Number(await this.contract.chainStatus(chainId))];
+  }
+
+  // Follows supersessions from any 7785 chain ID a chain has had to its latest one, or null if it is not registered
+  async currentChainId(chainId: string): Promise<string | null> {
+    const current: string = await this.contract.currentChainId(chainId);
+    return current === ZeroHash ? null : current;
+  }
+
+  // Returns the latest entry for a chain, following supersessions, or null
+  async currentChainDataFromId(chainId: string): Promise<RegisteredChainData | null> {
+    const current = await this.currentChainId(chainId);
+    return current && this.chainDataFromId(current);
+  }
+
+  // Returns every entry a chain has had, from its first registration to its latest (empty if it is not registered)
+  async chainHistory(chainId: string): Promise<ChainHistoryEntry[]> {
+    const history: string[] = await this.contract.chainHistory(chainId);
+    return Promise.all(
+      history.map(async (id) => {
+        const [exists, result] = await this.contract.chainDataFromId(id);
+        return { chainId: id, ...decodeChainData(result), exists, status: await this.chainStatus(id) };
+      })
+    );
+  }
+
+  private toRegistered(exists: boolean, result: Result): RegisteredChainData | null {
+    if (!exists) return null;
+    const data = decodeChainData(result);
+    return { chainId: computeChainId(data), ...data };
+  }
+
+  private async send(method: "register" | "demoRegister", data: ChainData): Promise<RegistrationResult> {
+    const receipt = await this.transact(method, encodeChainData(data));
+    return { chainId: this.chainIdFromReceipt(receipt), receipt };
+  }
+
+  private async transact(method: string, ...args: unknown[]): Promise<ContractTransactionReceipt> {
+    try {
+      // Simulate first so custom errors surface with their revert data rather than as a gas estimation failure
+      await this.contract[method].staticCall(...args);
+      const tx = await this.contract[method](...args);
+      return await tx.wait();
+    } catch (err) {
+      throw toChainRegistryError(this.interface, err);
+    }
+  }
+
+  // Reads the 7785 chain ID from the ChainRegistered event
+  private chainIdFromReceipt(receipt: ContractTransactionReceipt): string {
+    for (const log of receipt.logs) {
+      const parsed = this.interface.parseLog(log);
+      if (parsed?.name === "ChainRegistered") {
+        return parsed.args.chainId;
+      }
+    }
+    throw new Error(`No ChainRegistered event in transaction ${receipt.hash}`);
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * @description Offline helpers mirroring ChainResolver (src/ChainResolver.sol)
+ */
+
+import { concat, id, keccak256, namehash } from "ethers";
+
+// The second level name hosting chain-id resolution
+export const CID_ETH = "cid.eth";
+export const CID_ETH_NODE = namehash(CID_ETH);
+
+// ENS node for ${label}.cid.eth exactly as ChainResolver.computeNode computes it
+// NOTE: the label is hashed as-is, without ENSIP-15 normalization
+export function computeNode(label: string): string {
+  return keccak256(concat([CID_ETH_NODE, id(label)]));
+}
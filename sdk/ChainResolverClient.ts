@@ -0,0 +1,107 @@
+/**
+ * @description Typed client for the ChainResolver contract.
+ *              Reverse lookups turn a 7785 chain ID (or CAIP-2 identifier) into its full cid.eth name, and
+ *              assignments refuse labels that are not ENSIP-15 normalized (sdk/labels.ts) and map reverts to typed
+ *              errors (sdk/errors.ts).
+ * @usage       const client = new ChainResolverClient(address, providerOrSigner);
+ *              const name = await client.labelForCaip2("eip155:8453"); // "base.cid.eth"
+ */
+
+import { Contract, ContractRunner, ContractTransactionReceipt, Interface, ZeroHash } from "ethers";
+import { CHAIN_REGISTRY_ABI, CHAIN_RESOLVER_ABI } from "./abis";
+import { computeCaip2Hash, parseCaip2 } from "./CAIP2";
+import { CID_ETH, computeNode } from "./ChainResolver";
+import { toChainResolverError } from "./errors";
+import { LabelCheck, assertNormalizedLabel } from "./labels";
+
+// The outcome of a successful assignment
+export type AssignmentResult = {
+  readonly name: string;
+  readonly node: string;
+  readonly receipt: ContractTransactionReceipt;
+};
+
+export class ChainResolverClient {
+  readonly contract: Contract;
+  private registry?: Contract;
+
+  constructor(readonly target: string, private readonly runner: ContractRunner) {
+    this.contract = new Contract(target, CHAIN_RESOLVER_ABI, runner);
+  }
+
+  get interface(): Interface {
+    return this.contract.interface;
+  }
+
+  // Returns the 7785 chain ID assigned to ${label}.cid.eth, or null
+  async chainIdForLabel(label: string): Promise<string | null> {
+    const chainId: string = await this.contract.nodeToChainId(computeNode(label));
+    return chainId === ZeroHash ? null : chainId;
+  }
+
+  // Returns the full ENS name of the primary (first assigned) label for a 7785 chain ID, or null
+  // Supersede moves a chain to a new ID but labels stay on the entry they were assigned to, so the chain's history
+  // is searched, latest entry first
+  async labelForChain(chainId: string): Promise<string | null> {
+    for (const id of await this.lineage(chainId)) {
+      const label: string = await this.contract.chainIdToLabel(id);
+      if (label) return `${label}.${CID_ETH}`;
+    }
+    return null;
+  }
+
+  // Returns the full ENS names of every label assigned to a 7785 chain ID or the entries it superseded, latest entry
+  // first and in assignment order within each entry
+  async labelsForChain(chainId: string): Promise<string[]> {
+    const names: string[] = [];
+    for (const id of await this.lineage(chainId)) {
+      const labels: string[] = await this.contract.chainIdToLabels(id);
+      names.push(...labels.map((label) => `${label}.${CID_ETH}`));
+    }
+    return names;
+  }
+
+  // Returns the full ENS name for a CAIP-2 identifier (e.g. "eip155:8453"), or null
+  // The CAIP-2 pair is mapped to its chain ID by the ChainRegistry the resolver reads from
+  async labelForCaip2(caip2: string): Promise<string | null> {
+    const { namespace, reference } = parseCaip2(caip2);
+    const registry = await this.chainRegistry();
+    const chainId: string = await registry.caip2HashToChainId(computeCaip2Hash(namespace, reference));
+    return chainId === ZeroHash ? null : this.labelForChain(chainId);
+  }
+
+  // Owner-gated assignment of ${label}.cid.eth to a 7785 chain ID
+  // Throws InvalidLabelError before sending anything if the label is not ENSIP-15 normalized
+  async assign(label: string, chainId: string): Promise<AssignmentResult> {
+    return this.send("assign", assertNormalizedLabel(label), chainId);
+  }
+
+  // DEMO-ONLY: unrestricted assignment
+  async demoAssign(label: string, chainId: string): Promise<AssignmentResult> {
+    return this.send("demoAssign", assertNormalizedLabel(label), chainId);
+  }
+
+  private async send(method: "assign" | "demoAssign", check: LabelCheck, chainId: string): Promise<AssignmentResult> {
+    try {
+      // Simulate first so custom errors (e.g. LabelAlreadyAssigned) surface with their revert data
+      await this.contract[method].staticCall(check.label, chainId);
+      const tx = await this.contract[method](check.label, chainId);
+      const receipt: ContractTransactionReceipt = await tx.wait();
+      return { name: check.name!, node: check.node!, receipt };
+    } catch (err) {
+      throw toChainResolverError(this.interface, err);
+    }
+  }
+
+  // Every entry of the chain, latest first; just chainId itself when the registry does not know it
+  private async lineage(chainId: string): Promise<string[]> {
+    const registry = await this.chainRegistry();
+    const history: string[] = await registry.chainHistory(chainId);
+    return history.length > 0 ? [...history].reverse() : [chainId];
+  }
+
+  private async chainRegistry(): Promise<Contract> {
+    this.registry ??= new Contract(await this.contract.CHAIN_REGISTRY(), CHAIN_REGISTRY_ABI, this.runner);
+    return this.registry;
+  }
+}
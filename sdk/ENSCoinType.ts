@@ -0,0 +1,150 @@
+/**
+ * @description ENSIP-11 / SLIP-44 coin types for TypeScript callers. Mirrors the ENSCoinType library
+ *              (src/libs/ENSCointype.sol) and the coinType normalization in ChainRegistry._register.
+ * @see         https://docs.ens.domains/ensip/11
+ * @see         https://github.com/satoshilabs/slips/blob/master/slip-0044.md
+ */
+
+import { BigNumberish, MaxUint256, getBigInt } from "ethers";
+import { ChainData } from "./types";
+
+export const ENSIP11_MSB = 1n << 31n; // 0x80000000
+
+// SLIP-44 coin type for Ether - used for mainnet instead of an ENSIP-11 type
+export const ETH_COIN_TYPE = 60n;
+
+// SLIP-44 coin types for well known non-EVM chains, keyed by CAIP-2 "namespace:reference"
+export const SLIP44_COIN_TYPES = new Map<string, bigint>([
+  ["bip122:000000000019d6689c085ae165831e93", 0n], // Bitcoin
+  ["bip122:12a765e31ffd4059bada1e25190f6e98", 2n], // Litecoin
+  ["bip122:1a91e3dace36e2be3bf030a65679fe82", 3n], // Dogecoin
+  ["cosmos:cosmoshub-4", 118n], // Cosmos Hub
+  ["stellar:pubnet", 148n], // Stellar
+  ["polkadot:91b171bb158e2d3848fa23a9f1c25182", 354n], // Polkadot
+  ["solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", 501n], // Solana
+]);
+
+// Mirrors Strings.parseUint: decimal digits only, empty string is 0, reverts on overflow
+export function parseUint(input: string): bigint {
+  if (!/^[0-9]*$/.test(input)) {
+    throw new Error(`Invalid decimal string "${input}"`);
+  }
+  const value = input.length === 0 ? 0n : BigInt(input);
+  if (value > MaxUint256) {
+    throw new Error(`Decimal string "${input}" overflows uint256`);
+  }
+  return value;
+}
+
+// ENS coinType for a given EVM chainId per ENSIP-11 (mirrors ENSCoinType.evmCoinType)
+// Mainnet (chainId 1) returns 60 (SLIP-44 ETH)
+export function evmCoinType(chainId: BigNumberish): bigint {
+  const id = getBigInt(chainId);
+  if (id === 1n) return ETH_COIN_TYPE;
+  return ENSIP11_MSB | id;
+}
+
+// Recover chainId from an ENSIP-11 coinType or 60 -> 1 (mirrors ENSCoinType.chainIdFromCoinType)
+export function chainIdFromCoinType(coinType: BigNumberish): bigint {
+  const value = getBigInt(coinType);
+  if (value === ETH_COIN_TYPE) return 1n;
+  // ENSIP-11 types have MSB set; mask it off to get the chainId.
+  return value & (ENSIP11_MSB - 1n); // 0x7fffffff
+}
+
+// True if the coinType is in the ENSIP-11 EVM range (or is 60 for mainnet)
+export function isEvmCoinType(coinType: BigNumberish): boolean {
+  const value = getBigInt(coinType);
+  return value === ETH_COIN_TYPE || (value & ENSIP11_MSB) !== 0n;
+}
+
+// Looks up the bundled SLIP-44 coin type for a non-EVM CAIP-2 chain
+export function slip44CoinType(namespace: string, reference: string): bigint | undefined {
+  return SLIP44_COIN_TYPES.get(`${namespace}:${reference}`);
+}
+
+// Suggested coinType for a chain: ENSIP-11 for eip155, bundled SLIP-44 otherwise
+export function coinTypeFor(namespace: string, reference: string): bigint | undefined {
+  if (namespace === "eip155") {
+    return evmCoinType(parseUint(reference));
+  }
+  return slip44CoinType(namespace, reference);
+}
+
+// The coinType ChainRegistry._register will store for this ChainData
+// eip155 chains always get the derived ENSIP-11 type; anything else keeps the supplied coinType
+export function registryCoinType(data: ChainData): bigint {
+  if (data.chainNamespace === "eip155") {
+    return evmCoinType(parseUint(data.chainReference));
+  }
+  return getBigInt(data.coinType);
+}
+
+// A coinType claimed by more than one chain
+export type CoinTypeCollision = {
+  readonly coinType: bigint;
+  // The chain that wins the ensCoinTypeToChainId mapping
+  readonly owner: string;
+  // Chains that will register, but will NOT be reachable via chainDataFromEnsCoinType
+  readonly shadowed: string[];
+};
+
+// Finds coinTypes that are claimed by more than one entry
+// ChainRegistry keeps only the first chain that claims a coinType, so the order of entries matters
+// Pass existing claims (coinType -> chainName) to also check against an already populated registry
+export function findCoinTypeCollisions(
+  entries: ChainData[],
+  existing: Map<bigint, string> = new Map()
+): CoinTypeCollision[] {
+  const owners = new Map(existing);
+  const shadowed = new Map<bigint, string[]>();
+
+  for (const entry of entries) {
+    const coinType = registryCoinType(entry);
+    // A coinType of 0 is not mapped by the registry
+    if (coinType === 0n) continue;
+
+    if (!owners.has(coinType)) {
+      owners.set(coinType, entry.chainName);
+      continue;
+    }
+    shadowed.set(coinType, [...(shadowed.get(coinType) ?? []), entry.chainName]);
+  }
+
+  return [...shadowed].map(([coinType, names]) => ({
+    coinType,
+    owner: owners.get(coinType),
+    shadowed: names,
+  }));
+}
+
+// Human-readable warnings about the coinType an entry will end up with
+export function coinTypeWarnings(data: ChainData): string[] {
+  const warnings: string[] = [];
+  const stored = registryCoinType(data);
+  const supplied = getBigInt(data.coinType);
+
+  if (data.chainNamespace === "eip155") {
+    if (supplied !== 0n && supplied !== stored) {
+      warnings.push(
+        `${data.chainName}: supplied coinType ${supplied} is ignored, the registry stores ${stored} (ENSIP-11)`
+      );
+    }
+    return warnings;
+  }
+
+  if (stored === 0n) {
+    warnings.push(`${data.chainName}: coinType is 0 so the chain will not be reachable via chainDataFromEnsCoinType`);
+  } else if (isEvmCoinType(stored)) {
+    warnings.push(
+      `${data.chainName}: coinType ${stored} is in the ENSIP-11 EVM range (chainId ${chainIdFromCoinType(stored)}) but the namespace is ${data.chainNamespace}`
+    );
+  }
+
+  const expected = slip44CoinType(data.chainNamespace, data.chainReference);
+  if (expected !== undefined && expected !== stored) {
+    warnings.push(`${data.chainName}: coinType ${stored} differs from the SLIP-44 coin type ${expected}`);
+  }
+
+  return warnings;
+}
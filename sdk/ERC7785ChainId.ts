@@ -0,0 +1,35 @@
+/**
+ * @description Offline implementation of the ERC7785ChainId library (src/libs/ERC7785ChainId.sol).
+ *              Lets callers predict a chain's 7785 ID before it is registered.
+ */
+
+import { AbiCoder, keccak256 } from "ethers";
+import { ChainData } from "./types";
+
+// Field types in the exact order ERC7785ChainId.computeChainId abi.encodes them
+// Note: coinType is NOT part of the ID
+export const CHAIN_ID_FIELD_TYPES = [
+  "string",  // chainName
+  "uint256", // settlementChainId
+  "string",  // version
+  "address", // rollupContract
+  "string",  // chainNamespace
+  "string",  // chainReference
+] as const;
+
+// ABI encodes the ChainData fields that make up the 7785 chain ID
+export function encodeChainIdPreimage(data: ChainData): string {
+  return AbiCoder.defaultAbiCoder().encode(CHAIN_ID_FIELD_TYPES, [
+    data.chainName,
+    data.settlementChainId,
+    data.version,
+    data.rollupContract,
+    data.chainNamespace,
+    data.chainReference,
+  ]);
+}
+
+// Computes the bytes32 7785 chain ID exactly as ERC7785ChainId.computeChainId does
+export function computeChainId(data: ChainData): string {
+  return keccak256(encodeChainIdPreimage(data));
+}
@@ -0,0 +1,227 @@
+/**
+ * @description ERC-7930 interoperable addresses: binary and text encoding, and conversion between the
+ *              ERC-7930 chain type/reference and the CAIP-2 namespace/reference stored in ChainData.
+ *
+ *              Binary layout:
+ *              | Version (2) | ChainType (2) | ChainReferenceLength (1) | ChainReference | AddressLength (1) | Address |
+ *
+ *              Text layout: <address>@<namespace>:<reference>#<checksum>
+ *
+ * @see         https://eips.ethereum.org/EIPS/eip-7930
+ * @see         https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-350.md
+ */
+
+import {
+  BytesLike,
+  concat,
+  dataSlice,
+  decodeBase58,
+  encodeBase58,
+  getAddress,
+  getBytes,
+  hexlify,
+  keccak256,
+  toBeArray,
+  toBeHex,
+  toBigInt,
+} from "ethers";
+import { Caip2, parseCaip2, validateCaip2 } from "./CAIP2";
+import { parseUint } from "./ENSCoinType";
+
+export const ERC7930_VERSION = 1;
+
+// CAIP-350 chain types, keyed by CAIP-2 namespace
+export const CHAIN_TYPES = new Map<string, number>([
+  ["eip155", 0x0000],
+  ["solana", 0x0002],
+]);
+
+export type InteroperableAddress = {
+  readonly chainType: number;
+  // Binary chain reference, may be empty
+  readonly chainReference: string;
+  // Binary address, may be empty (e.g. when only identifying a chain)
+  readonly address: string;
+};
+
+export function chainTypeFromNamespace(namespace: string): number {
+  const chainType = CHAIN_TYPES.get(namespace);
+  if (chainType === undefined) {
+    throw new Error(`No ERC-7930 chain type known for CAIP-2 namespace "${namespace}"`);
+  }
+  return chainType;
+}
+
+export function namespaceFromChainType(chainType: number): string {
+  for (const [namespace, type] of CHAIN_TYPES) {
+    if (type === chainType) return namespace;
+  }
+  throw new Error(`Unknown ERC-7930 chain type 0x${chainType.toString(16).padStart(4, "0")}`);
+}
+
+// Encodes an interoperable address to its binary form
+export function encodeInteroperableAddress({ chainType, chainReference, address }: InteroperableAddress): string {
+  const ref = getBytes(chainReference);
+  const addr = getBytes(address);
+  if (chainType < 0 || chainType > 0xffff) throw new Error(`Invalid chain type ${chainType}`);
+  if (ref.length > 0xff) throw new Error(`Chain reference too long: ${ref.length} bytes`);
+  if (addr.length > 0xff) throw new Error(`Address too long: ${addr.length} bytes`);
+  return concat([
+    toBeHex(ERC7930_VERSION, 2),
+    toBeHex(chainType, 2),
+    toBeHex(ref.length, 1),
+    ref,
+    toBeHex(addr.length, 1),
+    addr,
+  ]);
+}
+
+// Decodes the binary form of an interoperable address
+export function decodeInteroperableAddress(data: BytesLike): InteroperableAddress {
+  const bytes = getBytes(data);
+  if (bytes.length < 6) throw new Error("Interoperable address too short");
+
+  const version = (bytes[0] << 8) | bytes[1];
+  if (version !== ERC7930_VERSION) throw new Error(`Unsupported ERC-7930 version ${version}`);
+
+  const chainType = (bytes[2] << 8) | bytes[3];
+  const refLength = bytes[4];
+  const addrLengthOffset = 5 + refLength;
+  if (bytes.length < addrLengthOffset + 1) throw new Error("Interoperable address truncated (chain reference)");
+
+  const addrLength = bytes[addrLengthOffset];
+  if (bytes.length !== addrLengthOffset + 1 + addrLength) {
+    throw new Error("Interoperable address length mismatch (address)");
+  }
+
+  return {
+    chainType,
+    chainReference: hexlify(bytes.slice(5, addrLengthOffset)),
+    address: hexlify(bytes.slice(addrLengthOffset + 1)),
+  };
+}
+
+// Base58 that preserves leading zero bytes as leading "1"s
+function fromBase58(value: string): Uint8Array {
+  const zeros = value.match(/^1*/)[0].length;
+  const rest = value.slice(zeros);
+  const body = rest.length > 0 ? toBeArray(decodeBase58(rest)) : new Uint8Array();
+  return getBytes(concat([new Uint8Array(zeros), body]));
+}
+
+function toBase58(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+  const rest = bytes.slice(zeros);
+  return "1".repeat(zeros) + (rest.length > 0 ? encodeBase58(rest) : "");
+}
+
+// Serializes a CAIP-2 reference to the binary chain reference for its namespace
+export function chainReferenceToBytes(namespace: string, reference: string): string {
+  switch (namespace) {
+    case "eip155":
+      // Big-endian chain ID with no leading zeros
+      return hexlify(toBeArray(parseEip155Reference(reference)));
+    case "solana":
+      return hexlify(fromBase58(reference));
+  }
+  throw new Error(`Cannot serialize a chain reference for namespace "${namespace}"`);
+}
+
+// eip155 references are decimal chain IDs: no hex, whitespace or empty string (which would encode as chain 0)
+function parseEip155Reference(reference: string): bigint {
+  const invalid = new Error(`Invalid eip155 chain reference "${reference}": expected a decimal chain ID`);
+  if (reference === "") throw invalid;
+  try {
+    return parseUint(reference);
+  } catch {
+    throw invalid;
+  }
+}
+
+// Inverse of chainReferenceToBytes
+export function chainReferenceFromBytes(namespace: string, chainReference: BytesLike): string {
+  const bytes = getBytes(chainReference);
+  switch (namespace) {
+    case "eip155":
+      return (bytes.length === 0 ? 0n : toBigInt(bytes)).toString();
+    case "solana":
+      return toBase58(bytes);
+  }
+  throw new Error(`Cannot deserialize a chain reference for namespace "${namespace}"`);
+}
+
+// Serializes a textual address to its binary form for the namespace
+export function addressToBytes(namespace: string, address: string): string {
+  if (address === "") return "0x";
+  switch (namespace) {
+    case "eip155":
+      return getAddress(address).toLowerCase();
+    case "solana":
+      return hexlify(fromBase58(address));
+  }
+  throw new Error(`Cannot serialize an address for namespace "${namespace}"`);
+}
+
+// Inverse of addressToBytes
+export function addressFromBytes(namespace: string, address: BytesLike): string {
+  const bytes = getBytes(address);
+  if (bytes.length === 0) return "";
+  switch (namespace) {
+    case "eip155":
+      return getAddress(hexlify(bytes));
+    case "solana":
+      return toBase58(bytes);
+  }
+  throw new Error(`Cannot deserialize an address for namespace "${namespace}"`);
+}
+
+// The CAIP-2 namespace/reference pair (as stored in ChainData) for an interoperable address
+export function interopToCaip2(interop: InteroperableAddress | BytesLike): Caip2 {
+  const { chainType, chainReference } = asInteroperableAddress(interop);
+  const namespace = namespaceFromChainType(chainType);
+  return { namespace, reference: chainReferenceFromBytes(namespace, chainReference) };
+}
+
+// Builds an interoperable address from a CAIP-2 pair and an optional textual address
+export function caip2ToInterop({ namespace, reference }: Caip2, address: string = ""): InteroperableAddress {
+  validateCaip2(namespace, reference);
+  return {
+    chainType: chainTypeFromNamespace(namespace),
+    chainReference: chainReferenceToBytes(namespace, reference),
+    address: addressToBytes(namespace, address),
+  };
+}
+
+// Checksum over everything but the version: first 4 bytes of keccak256, uppercase hex
+export function interopChecksum(interop: InteroperableAddress | BytesLike): string {
+  const binary = encodeInteroperableAddress(asInteroperableAddress(interop));
+  return dataSlice(keccak256(dataSlice(binary, 2)), 0, 4).slice(2).toUpperCase();
+}
+
+// Formats <address>@<namespace>:<reference>#<checksum>
+export function formatInteroperableAddress(interop: InteroperableAddress | BytesLike): string {
+  const value = asInteroperableAddress(interop);
+  const { namespace, reference } = interopToCaip2(value);
+  const address = addressFromBytes(namespace, value.address);
+  return `${address}@${namespace}:${reference}#${interopChecksum(value)}`;
+}
+
+// Parses <address>@<namespace>:<reference>[#<checksum>], verifying the checksum when present
+export function parseInteroperableAddress(text: string): InteroperableAddress {
+  const match = text.match(/^([^@]*)@([^#]+)(?:#([0-9A-Fa-f]{8}))?$/);
+  if (!match) {
+    throw new Error(`Invalid interoperable address "${text}": expected <address>@<namespace>:<reference>#<checksum>`);
+  }
+  const [, address, caip2, checksum] = match;
+  const interop = caip2ToInterop(parseCaip2(caip2), address);
+  if (checksum && checksum.toUpperCase() !== interopChecksum(interop)) {
+    throw new Error(`Invalid interoperable address "${text}": checksum mismatch, expected ${interopChecksum(interop)}`);
+  }
+  return interop;
+}
+
+function asInteroperableAddress(interop: InteroperableAddress | BytesLike): InteroperableAddress {
+  if (typeof interop === "object" && "chainType" in interop) return interop;
+  return decodeInteroperableAddress(interop);
+}
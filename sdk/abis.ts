@@ -0,0 +1,73 @@
+/**
+ * @description Human-readable ABIs for the registry contracts, so the SDK works without forge artifacts
+ */
+
+// The ChainData struct as an ABI tuple
+export const CHAIN_DATA_TUPLE =
+  "(string chainName, uint256 settlementChainId, string version, address rollupContract, string chainNamespace, string chainReference, uint256 coinType)";
+
+export const CHAIN_REGISTRY_ABI = [
+  `function register(${CHAIN_DATA_TUPLE} _chainData) returns (bytes32)`,
+  `function demoRegister(${CHAIN_DATA_TUPLE} _chainData) returns (bytes32)`,
+  `function supersede(bytes32 oldChainId, ${CHAIN_DATA_TUPLE} _chainData) returns (bytes32)`,
+  "function deprecate(bytes32 chainId)",
+  `function chainDataFromId(bytes32 chainId) view returns (bool exists, ${CHAIN_DATA_TUPLE} chainData)`,
+  `function chainDataFromCaip2(string namespace, string chainReference) view returns (bool exists, ${CHAIN_DATA_TUPLE} chainData)`,
+  `function chainDataFromEnsCoinType(uint256 ensCoinType) view returns (bool exists, ${CHAIN_DATA_TUPLE} chainData)`,
+  "function caip2HashToChainId(bytes32) view returns (bytes32)",
+  "function chainNameUsed(bytes32) view returns (bool)",
+  "function caip2HashUsed(bytes32) view returns (bool)",
+  "function ensCoinTypeToChainId(uint256) view returns (bytes32)",
+  "function supersededBy(bytes32) view returns (bytes32)",
+  "function supersedes(bytes32) view returns (bytes32)",
+  "function deprecated(bytes32) view returns (bool)",
+  "function chainStatus(bytes32 chainId) view returns (uint8)",
+  "function currentChainId(bytes32 chainId) view returns (bytes32)",
+  "function chainHistory(bytes32 chainId) view returns (bytes32[] history)",
+  "function owner() view returns (address)",
+  "function transferOwnership(address newOwner)",
+  "event ChainRegistered(bytes32 indexed chainId, string chainName)",
+  "event ChainSuperseded(bytes32 indexed oldChainId, bytes32 indexed newChainId)",
+  "event ChainDeprecated(bytes32 indexed chainId)",
+  "error ChainNameEmpty()",
+  "error ChainAlreadyRegistered()",
+  "error ChainNameAlreadyRegistered()",
+  "error CAIP2HashAlreadyRegistered()",
+  "error ChainNotRegistered()",
+  "error ChainAlreadySuperseded()",
+  "error ChainIsDeprecated()",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+] as const;
+
+export const CHAIN_RESOLVER_ABI = [
+  "function CHAIN_REGISTRY() view returns (address)",
+  "function assign(string label, bytes32 chainId)",
+  "function demoAssign(string label, bytes32 chainId)",
+  "function nodeToChainId(bytes32 node) view returns (bytes32)",
+  "function chainIdToLabel(bytes32 chainId) view returns (string)",
+  "function chainIdToLabels(bytes32 chainId) view returns (string[])",
+  "function computeNode(string chainName) pure returns (bytes32)",
+  "function resolve(bytes name, bytes data) view returns (bytes)",
+  "function resolveCallback(bytes response, bytes extraData) view returns (bytes)",
+  "function makeSignatureHash(address target, uint64 expires, bytes request, bytes result) pure returns (bytes32)",
+  "function gatewayUrls(uint256 index) view returns (string)",
+  "function getGatewayUrls() view returns (string[])",
+  "function signers(address signer) view returns (bool)",
+  "function setGatewayUrls(string[] urls)",
+  "function setSigner(address signer, bool enabled)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function owner() view returns (address)",
+  "function transferOwnership(address newOwner)",
+  "event NodeAssigned(bytes32 indexed node, string indexed label, bytes32 indexed chainId)",
+  "event GatewayUrlsChanged(string[] urls)",
+  "event SignerChanged(address indexed signer, bool enabled)",
+  "error ChainNameEmpty()",
+  "error UnsupportedFunction()",
+  "error LabelAlreadyAssigned()",
+  "error GatewayResponseExpired()",
+  "error InvalidGatewaySignature()",
+  "error OffchainLookup(address sender, string[] urls, bytes callData, bytes4 callbackFunction, bytes extraData)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+] as const;
@@ -0,0 +1,156 @@
+/**
+ * @description Revert data extraction and typed errors for ChainRegistry and ChainResolver custom errors
+ */
+
+import { Interface } from "ethers";
+
+// Reads a nested property of a thrown value, or undefined where the path does not exist
+function property(value: unknown, ...path: string[]): unknown {
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Digs the raw revert data out of the various shapes ethers/providers throw
+export function revertData(err: unknown): string | undefined {
+  const raw =
+    property(err, "data", "data") ??
+    property(err, "data") ??
+    property(err, "error", "data") ??
+    property(err, "info", "error", "data");
+  return typeof raw === "string" && raw.startsWith("0x") ? raw : undefined;
+}
+
+// Decodes the custom error name from a thrown error using the given interface
+export function revertName(iface: Interface, err: unknown): string | undefined {
+  const name = property(err, "revert", "name");
+  if (typeof name === "string" && name) return name;
+  const raw = revertData(err);
+  if (!raw) return;
+  try {
+    return iface.parseError(raw)?.name;
+  } catch {}
+}
+
+// Base class for decoded ChainRegistry reverts
+export class ChainRegistryError extends Error {
+  constructor(
+    readonly errorName: string,
+    message: string = `ChainRegistry reverted with ${errorName}`,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "ChainRegistryError";
+  }
+}
+
+export class ChainNameEmptyError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainNameEmpty", "Chain name must not be empty", cause);
+    this.name = "ChainNameEmptyError";
+  }
+}
+
+export class ChainAlreadyRegisteredError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainAlreadyRegistered", "A chain with this 7785 chain ID is already registered", cause);
+    this.name = "ChainAlreadyRegisteredError";
+  }
+}
+
+export class ChainNameAlreadyRegisteredError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainNameAlreadyRegistered", "A chain with this name is already registered", cause);
+    this.name = "ChainNameAlreadyRegisteredError";
+  }
+}
+
+export class CAIP2HashAlreadyRegisteredError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("CAIP2HashAlreadyRegistered", "A chain with this CAIP-2 namespace/reference is already registered", cause);
+    this.name = "CAIP2HashAlreadyRegisteredError";
+  }
+}
+
+export class ChainNotRegisteredError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainNotRegistered", "No chain is registered with this 7785 chain ID", cause);
+    this.name = "ChainNotRegisteredError";
+  }
+}
+
+export class ChainAlreadySupersededError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainAlreadySuperseded", "The chain has already been superseded by a newer entry", cause);
+    this.name = "ChainAlreadySupersededError";
+  }
+}
+
+export class ChainIsDeprecatedError extends ChainRegistryError {
+  constructor(cause?: unknown) {
+    super("ChainIsDeprecated", "The chain is deprecated", cause);
+    this.name = "ChainIsDeprecatedError";
+  }
+}
+
+const REGISTRY_ERROR_CLASSES: Record<string, new (cause?: unknown) => ChainRegistryError> = {
+  ChainNameEmpty: ChainNameEmptyError,
+  ChainAlreadyRegistered: ChainAlreadyRegisteredError,
+  ChainNameAlreadyRegistered: ChainNameAlreadyRegisteredError,
+  CAIP2HashAlreadyRegistered: CAIP2HashAlreadyRegisteredError,
+  ChainNotRegistered: ChainNotRegisteredError,
+  ChainAlreadySuperseded: ChainAlreadySupersededError,
+  ChainIsDeprecated: ChainIsDeprecatedError,
+};
+
+// Maps a thrown error to a typed ChainRegistryError when it carries a known custom error
+// Anything that is not a decodable revert is returned untouched
+export function toChainRegistryError(iface: Interface, err: unknown): unknown {
+  const name = revertName(iface, err);
+  if (!name) return err;
+  const ErrorClass = REGISTRY_ERROR_CLASSES[name];
+  return ErrorClass ? new ErrorClass(err) : new ChainRegistryError(name, undefined, err);
+}
+
+// Base class for decoded ChainResolver reverts
+export class ChainResolverError extends Error {
+  constructor(
+    readonly errorName: string,
+    message: string = `ChainResolver reverted with ${errorName}`,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "ChainResolverError";
+  }
+}
+
+// The resolver reports an empty label as ChainNameEmpty
+export class LabelEmptyError extends ChainResolverError {
+  constructor(cause?: unknown) {
+    super("ChainNameEmpty", "Label must not be empty", cause);
+    this.name = "LabelEmptyError";
+  }
+}
+
+export class LabelAlreadyAssignedError extends ChainResolverError {
+  constructor(cause?: unknown) {
+    super("LabelAlreadyAssigned", "This label is already assigned to a chain", cause);
+    this.name = "LabelAlreadyAssignedError";
+  }
+}
+
+const RESOLVER_ERROR_CLASSES: Record<string, new (cause?: unknown) => ChainResolverError> = {
+  ChainNameEmpty: LabelEmptyError,
+  LabelAlreadyAssigned: LabelAlreadyAssignedError,
+};
+
+// Maps a thrown error to a typed ChainResolverError when it carries a known custom error (Ownable errors included)
+// Anything that is not a decodable revert is returned untouched
+export function toChainResolverError(iface: Interface, err: unknown): unknown {
+  const name = revertName(iface, err);
+  if (!name) return err;
+  const ErrorClass = RESOLVER_ERROR_CLASSES[name];
+  return ErrorClass ? new ErrorClass(err) : new ChainResolverError(name, undefined, err);
+}
@@ -0,0 +1,130 @@
+/**
+ * @description Converts chain descriptions in the ethereum-lists/chains format (_data/chains/eip155-<id>.json)
+ *              into ChainData manifest entries for deploy/RegisterChains.ts.
+ *
+ *              chainNamespace     "eip155"
+ *              chainReference     chainId
+ *              settlementChainId  parent.chain ("eip155-1" -> 1)
+ *              rollupContract     an address on a parent.bridges entry, where present
+ *              chainName          the suggested cid.eth label, derived from name (or shortName)
+ *              version            "1"
+ *              coinType           0 (the registry derives the ENSIP-11 coinType)
+ *
+ *              Anything that could not be derived is listed in the entry's `flags`. Entries with missing fields
+ *              are left invalid on purpose, so RegisterChains blocks them until they are filled in by hand.
+ */
+
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { getAddress, isAddress } from "ethers";
+import { checkLabel } from "./labels";
+import { ChainData } from "./types";
+
+// The subset of the ethereum-lists/chains schema we read
+export type EthereumListsChain = {
+  name: string;
+  shortName?: string;
+  chainId: number;
+  status?: string;
+  parent?: {
+    type?: string;
+    chain?: string;
+    bridges?: { url?: string; [key: string]: unknown }[];
+  };
+};
+
+// A manifest entry with the import metadata alongside the ChainData fields
+export type ImportedChain = ChainData & {
+  label: string;
+  source: string;
+  flags: string[];
+};
+
+// "eip155-1" -> 1n
+function parentChainId(chain: string | undefined): bigint | null {
+  const match = chain?.match(/^eip155-([0-9]+)$/);
+  return match ? BigInt(match[1]) : null;
+}
+
+// Lowercase, hyphen separated and without a trailing "mainnet" ("OP Mainnet" -> "op", "Arbitrum One" -> "arbitrum-one")
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .replace(/-mainnet$/, "");
+}
+
+// Suggests an ENSIP-15 normalized cid.eth label for a chain, or null if neither name nor shortName yields one
+export function suggestLabel(chain: EthereumListsChain): string | null {
+  for (const candidate of [chain.name, chain.shortName]) {
+    if (!candidate) continue;
+    const slug = slugify(candidate);
+    if (slug && checkLabel(slug).errors.length === 0) return slug;
+  }
+  return null;
+}
+
+// Converts a single ethereum-lists chain into a manifest entry
+export function importEthereumListsChain(chain: EthereumListsChain, source = `eip155-${chain.chainId}.json`): ImportedChain {
+  const flags: string[] = [];
+
+  if (!Number.isSafeInteger(chain.chainId) || chain.chainId < 0) {
+    throw new Error(`${source}: chainId "${chain.chainId}" is not a chain ID`);
+  }
+
+  const label = suggestLabel(chain);
+  if (!label) flags.push(`no valid label could be derived from "${chain.name}": set chainName and label`);
+
+  if (chain.status === "deprecated") flags.push("chain is marked deprecated in ethereum-lists");
+
+  const settlement = parentChainId(chain.parent?.chain);
+  if (settlement === null) {
+    flags.push(
+      chain.parent?.chain
+        ? `parent chain "${chain.parent.chain}" is not an eip155 chain: set settlementChainId`
+        : "no parent chain: set settlementChainId"
+    );
+  }
+
+  // ethereum-lists bridges are usually just URLs; take a contract address if one is given
+  const bridgeAddress = chain.parent?.bridges
+    ?.flatMap((bridge) => Object.values(bridge))
+    .find((value): value is string => typeof value === "string" && isAddress(value));
+  if (!bridgeAddress) flags.push("no bridge contract address: set rollupContract");
+
+  flags.push('version defaulted to "1"');
+
+  return {
+    chainName: label ?? "",
+    settlementChainId: settlement === null ? "" : settlement.toString(),
+    version: "1",
+    rollupContract: bridgeAddress ? getAddress(bridgeAddress) : "",
+    chainNamespace: "eip155",
+    chainReference: chain.chainId.toString(),
+    coinType: 0,
+    label: label ?? "",
+    source,
+    flags,
+  };
+}
+
+// Reads ethereum-lists chain files; directories are read for *.json files (sorted by name)
+export async function loadEthereumListsChains(paths: string[]): Promise<ImportedChain[]> {
+  const files: string[] = [];
+  for (const p of paths) {
+    if ((await stat(p)).isDirectory()) {
+      const names = (await readdir(p)).filter((x) => x.endsWith(".json")).sort();
+      files.push(...names.map((x) => path.join(p, x)));
+    } else {
+      files.push(p);
+    }
+  }
+
+  const imported: ImportedChain[] = [];
+  for (const file of files) {
+    const chain: EthereumListsChain = JSON.parse(await readFile(file, "utf8"));
+    imported.push(importEthereumListsChain(chain, path.basename(file)));
+  }
+  return imported;
+}
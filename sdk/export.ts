@@ -0,0 +1,208 @@
+/**
+ * @description Renders a ChainIndexer snapshot (sdk/ChainIndexer.ts) into publishable formats:
+ *
+ *              chainlist.json   chainlist-style entries for the eip155 chains
+ *              caip2.json       every chain grouped by CAIP-2 namespace
+ *              chains.csv       one row per chain for ops
+ *              labels.json      cid.eth label -> 7785 chain ID pairs, as passed to ChainResolver.assign
+ *              index.json       sha256 of every file above, and a content hash over all of them
+ *
+ *              Superseded entries are history: chainlist.json and caip2.json only list the latest entry of each
+ *              chain, while chains.csv keeps every row.
+ *
+ *              Output depends only on the registry contents: entries are sorted (chains by CAIP-2, labels by
+ *              label) and nothing time or block dependent is written, so re-exporting an unchanged registry
+ *              produces identical files and PR diffs show only real changes.
+ */
+
+import { sha256, toUtf8Bytes } from "ethers";
+import { CID_ETH } from "./ChainResolver";
+import { IndexedChain, IndexedLabel, Snapshot } from "./ChainIndexer";
+
+export type ChainlistEntry = {
+  name: string;
+  chainId: number;
+  shortName: string | null;
+  caip2: string;
+  erc7785ChainId: string;
+  ens: string | null;
+  parent: { type: "L2"; chain: string } | null;
+  rollupContract: string;
+};
+
+export type Caip2Listing = Record<
+  string,
+  { reference: string; caip2: string; chainName: string; chainId: string }[]
+>;
+
+export type LabelPair = { label: string; name: string; chainId: string };
+
+export type ExportIndex = {
+  network: number;
+  registry: string;
+  resolver: string | null;
+  chains: number;
+  labels: number;
+  files: Record<string, string>;
+  contentHash: string;
+};
+
+export type ExportFiles = Record<string, string>;
+
+// Decimal references compare numerically ("10" before "8453"), anything else as a string
+function compareReference(a: string, b: string): number {
+  if (/^[0-9]+$/.test(a) && /^[0-9]+$/.test(b)) {
+    return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Chains in CAIP-2 order (namespace, then reference), ties broken by 7785 chain ID
+export function sortedChains(snapshot: Snapshot): IndexedChain[] {
+  return Object.values(snapshot.chains).sort(
+    (a, b) =>
+      compareStrings(a.chainNamespace, b.chainNamespace) ||
+      compareReference(a.chainReference, b.chainReference) ||
+      compareStrings(a.chainId, b.chainId)
+  );
+}
+
+// Recovered labels in label order; labels whose plaintext is unknown cannot be exported
+export function sortedLabels(snapshot: Snapshot): IndexedLabel[] {
+  return Object.values(snapshot.labels)
+    .filter((x) => x.label !== null)
+    .sort((a, b) => compareStrings(a.label!, b.label!));
+}
+
+// The primary (first assigned) label of every chain, keyed by 7785 chain ID
+function primaryLabels(snapshot: Snapshot): Map<string, string> {
+  const primary = new Map<string, IndexedLabel>();
+  for (const label of Object.values(snapshot.labels)) {
+    if (label.label === null) continue;
+    const current = primary.get(label.chainId);
+    if (!current || label.blockNumber < current.blockNumber) primary.set(label.chainId, label);
+  }
+  return new Map([...primary].map(([chainId, label]) => [chainId, label.label!]));
+}
+
+// Chains that have not been replaced by a newer entry
+function currentChains(snapshot: Snapshot): IndexedChain[] {
+  return sortedChains(snapshot).filter((chain) => !chain.supersededBy);
+}
+
+export function toChainlist(snapshot: Snapshot): ChainlistEntry[] {
+  const labels = primaryLabels(snapshot);
+  return currentChains(snapshot)
+    .filter((chain) => chain.chainNamespace === "eip155")
+    .map((chain) => {
+      const label = labels.get(chain.chainId) ?? null;
+      return {
+        name: chain.chainName,
+        chainId: Number(chain.chainReference),
+        shortName: label,
+        caip2: `eip155:${chain.chainReference}`,
+        erc7785ChainId: chain.chainId,
+        ens: label && `${label}.${CID_ETH}`,
+        parent: chain.settlementChainId === "0" ? null : { type: "L2", chain: `eip155-${chain.settlementChainId}` },
+        rollupContract: chain.rollupContract,
+      };
+    });
+}
+
+export function toCaip2Listing(snapshot: Snapshot): Caip2Listing {
+  const listing: Caip2Listing = {};
+  for (const chain of currentChains(snapshot)) {
+    (listing[chain.chainNamespace] ??= []).push({
+      reference: chain.chainReference,
+      caip2: `${chain.chainNamespace}:${chain.chainReference}`,
+      chainName: chain.chainName,
+      chainId: chain.chainId,
+    });
+  }
+  return listing;
+}
+
+export const CSV_COLUMNS = [
+  "chainId",
+  "chainName",
+  "caip2",
+  "settlementChainId",
+  "version",
+  "rollupContract",
+  "coinType",
+  "exists",
+  "labels",
+] as const;
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toOpsCsv(snapshot: Snapshot): string {
+  const labels = new Map<string, string[]>();
+  for (const label of sortedLabels(snapshot)) {
+    labels.set(label.chainId, [...(labels.get(label.chainId) ?? []), label.label!]);
+  }
+
+  const rows = sortedChains(snapshot).map((chain) =>
+    [
+      chain.chainId,
+      chain.chainName,
+      `${chain.chainNamespace}:${chain.chainReference}`,
+      chain.settlementChainId,
+      chain.version,
+      chain.rollupContract,
+      chain.coinType,
+      String(chain.exists),
+      (labels.get(chain.chainId) ?? []).join(" "),
+    ]
+      .map(csvField)
+      .join(",")
+  );
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function toLabelPairs(snapshot: Snapshot): LabelPair[] {
+  return sortedLabels(snapshot).map((x) => ({
+    label: x.label!,
+    name: `${x.label}.${CID_ETH}`,
+    chainId: x.chainId,
+  }));
+}
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+// Renders every export format, plus index.json hashing them
+export function renderExport(snapshot: Snapshot): ExportFiles {
+  const files: ExportFiles = {
+    "chainlist.json": json(toChainlist(snapshot)),
+    "caip2.json": json(toCaip2Listing(snapshot)),
+    "chains.csv": toOpsCsv(snapshot),
+    "labels.json": json(toLabelPairs(snapshot)),
+  };
+
+  const hashes = Object.fromEntries(
+    Object.keys(files)
+      .sort()
+      .map((name) => [name, sha256(toUtf8Bytes(files[name]))])
+  );
+
+  const index: ExportIndex = {
+    network: snapshot.network,
+    registry: snapshot.registry,
+    resolver: snapshot.resolver,
+    chains: Object.keys(snapshot.chains).length,
+    labels: sortedLabels(snapshot).length,
+    files: hashes,
+    contentHash: sha256(toUtf8Bytes(Object.entries(hashes).map(([name, hash]) => `${hash}  ${name}\n`).join(""))),
+  };
+
+  return { ...files, "index.json": json(index) };
+}
@@ -0,0 +1,78 @@
+/**
+ * @description ENSIP-15 validation for cid.eth labels.
+ *              ChainResolver.computeNode hashes labels as-is, so an unnormalized label ("Base", "base ") or a
+ *              confusable one (Cyrillic "bаse") becomes a node no ENS client will ever resolve. Check labels here
+ *              before assigning them. Normalization is ethers' ensNormalize (@adraffy/ens-normalize).
+ */
+
+import { ensNormalize, namehash } from "ethers";
+import { CID_ETH, computeNode } from "./ChainResolver";
+
+export type LabelCheck = {
+  // The label as given
+  label: string;
+  // The ENSIP-15 normalized label, or null if it cannot be normalized
+  normalized: string | null;
+  // Full ENS name and node of the normalized label, or null
+  name: string | null;
+  node: string | null;
+  // Reasons the label cannot be assigned (empty if it can)
+  errors: string[];
+};
+
+export class InvalidLabelError extends Error {
+  constructor(readonly check: LabelCheck) {
+    super(`Invalid label "${check.label}": ${check.errors.join("; ")}`);
+    this.name = "InvalidLabelError";
+  }
+}
+
+// ethers wraps the ens-normalize reason as "invalid ENS name (<reason>)"
+function normalizeReason(err: unknown): string {
+  let message = String(err);
+  if (err instanceof Error) {
+    message = "shortMessage" in err && typeof err.shortMessage === "string" ? err.shortMessage : err.message;
+  }
+  return message.replace(/^invalid ENS name \((.*)\)$/s, "$1");
+}
+
+// Validates a single cid.eth label against ENSIP-15
+export function checkLabel(label: string): LabelCheck {
+  const check: LabelCheck = { label, normalized: null, name: null, node: null, errors: [] };
+
+  if (label.length === 0) {
+    check.errors.push("label is empty");
+    return check;
+  }
+  if (label.includes(".")) {
+    check.errors.push(`label must be a single label, not a name (remove the "." characters)`);
+    return check;
+  }
+
+  try {
+    check.normalized = ensNormalize(label);
+  } catch (err) {
+    check.errors.push(normalizeReason(err));
+    return check;
+  }
+
+  check.name = `${check.normalized}.${CID_ETH}`;
+  check.node = computeNode(check.normalized);
+
+  if (check.node !== namehash(check.name)) {
+    // computeNode and namehash only disagree if normalization produced a separator
+    check.errors.push(`normalized label "${check.normalized}" is not a single label`);
+  }
+  if (check.normalized !== label) {
+    check.errors.push(`label differs from its normalized form "${check.normalized}"`);
+  }
+
+  return check;
+}
+
+// Throws an InvalidLabelError unless the label is already in ENSIP-15 normalized form
+export function assertNormalizedLabel(label: string): LabelCheck {
+  const check = checkLabel(label);
+  if (check.errors.length > 0) throw new InvalidLabelError(check);
+  return check;
+}
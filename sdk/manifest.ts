@@ -0,0 +1,192 @@
+/**
+ * @description Chain manifests: JSON or CSV files listing ChainData entries to register.
+ *
+ *              JSON: an array of ChainData objects, or { "chains": [...] }
+ *              CSV:  a header row naming the ChainData fields, then one chain per row
+ */
+
+import { BigNumberish, getBigInt, isAddress, ZeroAddress } from "ethers";
+import { readFile } from "fs/promises";
+import path from "path";
+import { caip2Errors } from "./CAIP2";
+import { coinTypeWarnings, parseUint } from "./ENSCoinType";
+import { ChainData } from "./types";
+
+export const CHAIN_DATA_FIELDS = [
+  "chainName",
+  "settlementChainId",
+  "version",
+  "rollupContract",
+  "chainNamespace",
+  "chainReference",
+  "coinType",
+] as const;
+
+// The result of validating a single manifest entry
+export type EntryValidation = {
+  readonly index: number;
+  readonly errors: string[];
+  readonly warnings: string[];
+};
+
+// Splits a CSV line, honouring double-quoted fields ("" escapes a quote)
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        current += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  fields.push(current);
+  return fields.map((x) => x.trim());
+}
+
+export function parseCsvManifest(text: string): ChainData[] {
+  const lines = text.split(/\r?\n/).filter((x) => x.trim() && !x.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]);
+  for (const field of CHAIN_DATA_FIELDS) {
+    if (field !== "coinType" && !header.includes(field)) {
+      throw new Error(`CSV manifest is missing the "${field}" column`);
+    }
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const values = splitCsvLine(line);
+    if (values.length !== header.length) {
+      throw new Error(`CSV manifest row ${i + 1} has ${values.length} fields, expected ${header.length}`);
+    }
+    const row = Object.fromEntries(header.map((key, j) => [key, values[j]]));
+    return toChainData(row, i);
+  });
+}
+
+export function parseJsonManifest(text: string): ChainData[] {
+  const json: unknown = JSON.parse(text);
+  const entries = Array.isArray(json) ? json : (json as { chains?: unknown } | null)?.chains;
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON manifest must be an array of chains or { "chains": [...] }');
+  }
+  return entries.map(toChainData);
+}
+
+// Loads a manifest, choosing the parser by file extension
+export async function loadManifest(file: string): Promise<ChainData[]> {
+  const text = await readFile(file, "utf8");
+  return path.extname(file).toLowerCase() === ".csv" ? parseCsvManifest(text) : parseJsonManifest(text);
+}
+
+// Normalizes a raw manifest row; numeric fields may be numbers or strings, coinType defaults to 0
+// Rows are untrusted, so anything that is not a scalar is rejected here rather than reaching ethers
+function toChainData(row: unknown, index: number): ChainData {
+  if (typeof row !== "object" || row === null || Array.isArray(row)) {
+    throw new Error(`Manifest entry ${index} must be an object`);
+  }
+  const fields = row as Record<string, unknown>;
+  const text = (field: keyof ChainData): string => {
+    const value = fields[field];
+    if (value === undefined || value === null) return "";
+    if (typeof value === "object") throw new Error(`Manifest entry ${index}: ${field} must be a string`);
+    return String(value);
+  };
+  const numeric = (field: keyof ChainData, fallback: BigNumberish): BigNumberish => {
+    const value = fields[field];
+    if (value === undefined || value === "") return fallback;
+    if (typeof value !== "number" && typeof value !== "string" && typeof value !== "bigint") {
+      throw new Error(`Manifest entry ${index}: ${field} must be a number or a decimal string`);
+    }
+    return value;
+  };
+
+  return {
+    chainName: text("chainName"),
+    settlementChainId: numeric("settlementChainId", ""),
+    version: text("version"),
+    rollupContract: text("rollupContract"),
+    chainNamespace: text("chainNamespace"),
+    chainReference: text("chainReference"),
+    coinType: numeric("coinType", 0),
+  };
+}
+
+function isUint(value: unknown): boolean {
+  if (typeof value !== "number" && typeof value !== "string" && typeof value !== "bigint") return false;
+  try {
+    return getBigInt(value) >= 0n && String(value).trim() !== "";
+  } catch {
+    return false;
+  }
+}
+
+// Validates a single entry against what ChainRegistry.register will accept
+export function validateEntry(data: ChainData, index = 0): EntryValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!data.chainName) errors.push("chainName must not be empty");
+  if (!isUint(data.settlementChainId)) errors.push(`settlementChainId "${data.settlementChainId}" is not a uint256`);
+  if (!isUint(data.coinType)) errors.push(`coinType "${data.coinType}" is not a uint256`);
+  if (!isAddress(data.rollupContract)) {
+    errors.push(`rollupContract "${data.rollupContract}" is not an address`);
+  } else if (data.rollupContract === ZeroAddress) {
+    warnings.push("rollupContract is the zero address: chainDataFromId will report the chain as not existing");
+  }
+
+  errors.push(...caip2Errors(data.chainNamespace, data.chainReference));
+
+  if (data.chainNamespace === "eip155") {
+    try {
+      parseUint(data.chainReference);
+    } catch {
+      errors.push(`eip155 chainReference "${data.chainReference}" is not a decimal chain ID (Strings.parseUint would revert)`);
+    }
+  }
+
+  if (errors.length === 0) {
+    warnings.push(...coinTypeWarnings(data));
+  }
+
+  return { index, errors, warnings };
+}
+
+// Validates every entry, including uniqueness of names and CAIP-2 pairs within the manifest
+export function validateManifest(entries: ChainData[]): EntryValidation[] {
+  const results = entries.map(validateEntry);
+  const names = new Map<string, number>();
+  const caip2s = new Map<string, number>();
+
+  entries.forEach((entry, i) => {
+    const caip2 = `${entry.chainNamespace}:${entry.chainReference}`;
+    if (names.has(entry.chainName)) {
+      results[i].errors.push(`chainName "${entry.chainName}" duplicates entry ${names.get(entry.chainName)}`);
+    } else {
+      names.set(entry.chainName, i);
+    }
+    if (caip2s.has(caip2)) {
+      results[i].errors.push(`CAIP-2 "${caip2}" duplicates entry ${caip2s.get(caip2)}`);
+    } else {
+      caip2s.set(caip2, i);
+    }
+  });
+
+  return results;
+}
@@ -0,0 +1,362 @@
+/**
+ * @description Copies every chain and cid.eth label from one ChainRegistry/ChainResolver deployment to another.
+ *              Neither contract is upgradeable (and the resolver's CHAIN_REGISTRY is immutable), so a contract fix
+ *              means a fresh deployment that has to be repopulated:
+ *              - the source is read by replaying its events (sdk/ChainIndexer.ts), with label order per chain taken
+ *                from chainIdToLabels
+ *              - chains are registered in their original order, so the chain that first claimed a coinType claims
+ *                it again, and labels are assigned verbatim in their original order, so primary labels stay primary
+ *              - replacements are registered with supersede and deprecations are replayed, so lifecycle and
+ *                history match too
+ *              - steps are planned against the target's current state, so an interrupted migration resumes where
+ *                it stopped
+ *              - verifyMigration compares every 7785 chain ID, CAIP-2 and coinType mapping and every label
+ * @usage       const source = await readMigrationSource({ provider, registry, resolver });
+ *              const steps = await planMigration(source, target);
+ *              await executeMigration(steps, source, target);
+ *              const mismatches = await verifyMigration(source, sourceContracts, target);
+ */
+
+import { ContractTransactionReceipt, ContractTransactionResponse, ZeroHash, id } from "ethers";
+import { computeCaip2Hash } from "./CAIP2";
+import { ChainIndexer, ChainIndexerOptions } from "./ChainIndexer";
+import { ChainRegistryClient } from "./ChainRegistryClient";
+import { ChainResolverClient } from "./ChainResolverClient";
+import { computeNode } from "./ChainResolver";
+import { RegisteredChainData } from "./types";
+
+// The registry and resolver on one side of a migration
+export type MigrationContracts = {
+  readonly registry: ChainRegistryClient;
+  readonly resolver: ChainResolverClient;
+};
+
+// A source chain as stored, along with whether chainDataFromId reports it as existing (non-zero rollupContract)
+export type MigrationChain = RegisteredChainData & {
+  readonly exists: boolean;
+  // The chain this entry superseded, if any
+  readonly supersedes: string | null;
+  readonly deprecated: boolean;
+  readonly blockNumber: number;
+};
+
+export type MigrationLabel = {
+  readonly label: string;
+  readonly node: string;
+  readonly chainId: string;
+  readonly blockNumber: number;
+};
+
+export type MigrationSource = {
+  readonly registry: string;
+  readonly resolver: string;
+  // In registration order
+  readonly chains: MigrationChain[];
+  // In assignment order
+  readonly labels: MigrationLabel[];
+};
+
+// pending:          still to be sent
+// migrated:         sent by this migration
+// already-migrated: the target already matches the source
+// conflict:         the target holds something else (would revert, or leave the target different from the source)
+// failed:           reverted or could not be sent
+export type MigrationStatus = "pending" | "migrated" | "already-migrated" | "conflict" | "failed";
+
+type StepState = { status: MigrationStatus; txHash: string | null; error?: string };
+
+// register sends supersede instead when the chain replaced an earlier one
+export type MigrationStep = StepState &
+  (
+    | { kind: "register"; chainId: string; chainName: string; caip2: string; supersedes: string | null }
+    | { kind: "deprecate"; chainId: string; chainName: string }
+    | { kind: "assign"; label: string; node: string; chainId: string }
+  );
+
+export type ExecuteMigrationOptions = {
+  // Called after every step that was sent (e.g. to persist progress)
+  onStep?: (step: MigrationStep) => unknown;
+};
+
+// Reads every chain and label from the source deployment
+// Chains come from ChainRegistered events plus chainDataFromId, labels from NodeAssigned events plus chainIdToLabels
+// (which also recovers labels ChainIndexer could not find in calldata)
+export async function readMigrationSource(
+  options: ChainIndexerOptions & { resolver: string }
+): Promise<MigrationSource> {
+  const snapshot = await new ChainIndexer(options).sync();
+  const registry = new ChainRegistryClient(options.registry, options.provider);
+  const resolver = new ChainResolverClient(options.resolver, options.provider);
+
+  const predecessors = new Map<string, string>();
+  for (const chain of Object.values(snapshot.chains)) {
+    if (chain.supersededBy) predecessors.set(chain.supersededBy, chain.chainId);
+  }
+
+  const chains: MigrationChain[] = [];
+  // coinType -> chain the source maps it to
+  const coinTypeOwners = new Map<bigint, string>();
+  for (const chain of Object.values(snapshot.chains)) {
+    const { blockNumber, transactionHash, supersededBy, deprecated, ...data } = chain;
+    const coinType = BigInt(data.coinType);
+    if (coinType !== 0n && !coinTypeOwners.has(coinType)) {
+      coinTypeOwners.set(coinType, await registry.contract.ensCoinTypeToChainId(coinType));
+    }
+    chains.push({
+      ...data,
+      settlementChainId: BigInt(data.settlementChainId),
+      coinType,
+      supersedes: predecessors.get(chain.chainId) ?? null,
+      deprecated: deprecated ?? false,
+      blockNumber,
+    });
+  }
+
+  // Events only carry block order. Within a block, a chain came before its replacement, and the chain whose
+  // lineage owns the coinType mapping (supersede moves it along) came before other chains claiming the coinType
+  const depth = (x: MigrationChain) => lineage(chains, x.chainId).indexOf(x.chainId);
+  const ownsCoinType = (x: MigrationChain) =>
+    x.coinType === 0n || lineage(chains, x.chainId).includes(coinTypeOwners.get(x.coinType));
+  chains.sort(
+    (a, b) =>
+      a.blockNumber - b.blockNumber || depth(a) - depth(b) || Number(ownsCoinType(b)) - Number(ownsCoinType(a))
+  );
+
+  const labels: MigrationLabel[] = [];
+  const chainIds = [...new Set(Object.values(snapshot.labels).map((x) => x.chainId))];
+  for (const chainId of chainIds) {
+    // chainIdToLabels is in assignment order; the sort below is stable, so it is kept within a block
+    for (const label of await resolver.contract.chainIdToLabels(chainId)) {
+      const node = computeNode(label);
+      const indexed = snapshot.labels[node];
+      if (!indexed) throw new Error(`Label "${label}" of ${chainId} has no NodeAssigned event in the indexed range`);
+      labels.push({ label, node, chainId, blockNumber: indexed.blockNumber });
+    }
+  }
+  labels.sort((a, b) => a.blockNumber - b.blockNumber);
+
+  return { registry: options.registry, resolver: options.resolver, chains, labels };
+}
+
+// Every entry a chain has had in the source, oldest first
+function lineage(chains: MigrationChain[], chainId: string): string[] {
+  const byId = new Map(chains.map((x) => [x.chainId, x]));
+  const successors = new Map(chains.filter((x) => x.supersedes).map((x) => [x.supersedes, x.chainId]));
+  let first = chainId;
+  while (byId.get(first)?.supersedes) first = byId.get(first).supersedes;
+  const ids = [first];
+  while (successors.has(ids.at(-1))) ids.push(successors.get(ids.at(-1)));
+  return ids;
+}
+
+// Plans the steps that make the target match the source, marking the ones the target already matches
+export async function planMigration(source: MigrationSource, target: MigrationContracts): Promise<MigrationStep[]> {
+  const registry = target.registry.contract;
+  const resolver = target.resolver.contract;
+
+  const reads = (await resolver.CHAIN_REGISTRY()) as string;
+  if (reads.toLowerCase() !== target.registry.target.toLowerCase()) {
+    throw new Error(`Target ChainResolver reads from ${reads}, not the target ChainRegistry ${target.registry.target}`);
+  }
+
+  // coinType -> lineage the source maps it to: that of the first chain to claim it, as chains are in registration
+  // order (supersede moves the mapping along the lineage)
+  const coinTypeOwners = new Map<bigint, string[]>();
+  for (const chain of source.chains) {
+    if (!coinTypeOwners.has(chain.coinType)) coinTypeOwners.set(chain.coinType, lineage(source.chains, chain.chainId));
+  }
+  const chains = new Map(source.chains.map((x) => [x.chainId, x]));
+
+  const steps: MigrationStep[] = [];
+
+  for (const chain of source.chains) {
+    const caip2Hash = computeCaip2Hash(chain.chainNamespace, chain.chainReference);
+    const step: MigrationStep = {
+      kind: "register",
+      chainId: chain.chainId,
+      chainName: chain.chainName,
+      caip2: `${chain.chainNamespace}:${chain.chainReference}`,
+      supersedes: chain.supersedes,
+      status: "pending",
+      txHash: null,
+    };
+
+    // A chain is registered under its 7785 chain ID only with the same data (the ID covers every field but coinType,
+    // which verifyMigration checks). CAIP-2 lookups are not used here: supersede moves them to the replacement.
+    const [, stored] = await registry.chainDataFromId(chain.chainId);
+    if (stored.chainName !== "") {
+      step.status = "already-migrated";
+      steps.push(step);
+      continue;
+    }
+
+    // A replacement may reuse the name and CAIP-2 pair of the chain it supersedes
+    const replaced = chains.get(chain.supersedes);
+    const errors: string[] = [];
+    if (chain.chainName !== replaced?.chainName && (await registry.chainNameUsed(id(chain.chainName)))) {
+      errors.push(`chainName "${chain.chainName}" is registered to a different chain`);
+    }
+    const reusesCaip2 =
+      replaced && computeCaip2Hash(replaced.chainNamespace, replaced.chainReference) === caip2Hash;
+    if (!reusesCaip2 && (await registry.caip2HashUsed(caip2Hash))) {
+      errors.push(`CAIP-2 ${step.caip2} is registered to a different chain`);
+    }
+    if (chain.coinType !== 0n) {
+      const owner: string = await registry.ensCoinTypeToChainId(chain.coinType);
+      const expected = coinTypeOwners.get(chain.coinType);
+      if (owner !== ZeroHash && !expected.includes(owner)) {
+        errors.push(`coinType ${chain.coinType} is mapped to ${owner} on the target, not ${expected[0]}`);
+      }
+    }
+    if (errors.length > 0) {
+      step.status = "conflict";
+      step.error = errors.join("; ");
+    }
+    steps.push(step);
+  }
+
+  // Deprecated chains have no replacement, so deprecating them after every registration keeps the order valid
+  for (const chain of source.chains.filter((x) => x.deprecated)) {
+    const deprecated: boolean = await registry.deprecated(chain.chainId);
+    steps.push({
+      kind: "deprecate",
+      chainId: chain.chainId,
+      chainName: chain.chainName,
+      status: deprecated ? "already-migrated" : "pending",
+      txHash: null,
+    });
+  }
+
+  // Labels already on the target must be a prefix of the source's labels for the same chain
+  const targetLabels = new Map<string, string[]>();
+  const assigned = new Map<string, number>();
+  for (const x of source.labels) {
+    if (!targetLabels.has(x.chainId)) targetLabels.set(x.chainId, await resolver.chainIdToLabels(x.chainId));
+    const position = assigned.get(x.chainId) ?? 0;
+    assigned.set(x.chainId, position + 1);
+
+    const step: MigrationStep = {
+      kind: "assign",
+      label: x.label,
+      node: x.node,
+      chainId: x.chainId,
+      status: "pending",
+      txHash: null,
+    };
+
+    const existing = targetLabels.get(x.chainId);
+    const current: string = await resolver.nodeToChainId(x.node);
+    if (current === x.chainId && existing[position] === x.label) {
+      step.status = "already-migrated";
+    } else if (current !== ZeroHash) {
+      step.status = "conflict";
+      step.error = `"${x.label}" is assigned to ${current} on the target`;
+    } else if (existing.length > position) {
+      step.status = "conflict";
+      step.error = `${x.chainId} already has "${existing[position]}" as label ${position + 1} on the target`;
+    }
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+// Sends the pending steps in order with the owner-gated register, supersede, deprecate and assign
+// Stops at the first failure: later steps depend on earlier ones (coinType claims, replacements, primary labels)
+export async function executeMigration(
+  steps: MigrationStep[],
+  source: MigrationSource,
+  target: MigrationContracts,
+  options: ExecuteMigrationOptions = {}
+): Promise<void> {
+  const blocked = steps.find((x) => x.status === "conflict");
+  if (blocked) throw new Error(`Cannot migrate: ${blocked.kind} ${stepName(blocked)} conflicts (${blocked.error})`);
+
+  const chains = new Map(source.chains.map((x) => [x.chainId, x]));
+
+  for (const step of steps) {
+    if (step.status !== "pending" && step.status !== "failed") continue;
+    try {
+      if (step.kind === "register") {
+        const data = chains.get(step.chainId);
+        const { chainId, receipt } = step.supersedes
+          ? await target.registry.supersede(step.supersedes, data)
+          : await target.registry.register(data);
+        if (chainId !== step.chainId) throw new Error(`Registered as ${chainId}, expected ${step.chainId}`);
+        step.txHash = receipt.hash;
+      } else if (step.kind === "deprecate") {
+        step.txHash = (await target.registry.deprecate(step.chainId)).hash;
+      } else {
+        // Labels are copied verbatim: the source may hold labels that ChainResolverClient.assign would refuse
+        const resolver = target.resolver.contract;
+        await resolver.assign.staticCall(step.label, step.chainId);
+        const tx: ContractTransactionResponse = await resolver.assign(step.label, step.chainId);
+        const receipt: ContractTransactionReceipt = await tx.wait();
+        step.txHash = receipt.hash;
+      }
+      step.status = "migrated";
+      delete step.error;
+    } catch (err) {
+      step.status = "failed";
+      step.error = err instanceof Error ? err.message : String(err);
+    }
+    await options.onStep?.(step);
+    if (step.status === "failed") return;
+  }
+}
+
+export function stepName(step: MigrationStep): string {
+  if (step.kind === "register") {
+    return `${step.chainName} (${step.caip2})${step.supersedes ? `, superseding ${step.supersedes}` : ""}`;
+  }
+  return step.kind === "deprecate" ? `${step.chainName} (${step.chainId})` : `${step.label} -> ${step.chainId}`;
+}
+
+// Compares the target with the source: ChainData, existence, CAIP-2 and coinType mappings (and lifecycle) per chain,
+// and the node and ordered labels per labelled chain. Returns one line per mismatch (empty when the target matches).
+export async function verifyMigration(
+  migration: MigrationSource,
+  source: MigrationContracts,
+  target: MigrationContracts
+): Promise<string[]> {
+  const src = { registry: source.registry.contract, resolver: source.resolver.contract };
+  const dst = { registry: target.registry.contract, resolver: target.resolver.contract };
+  const mismatches: string[] = [];
+
+  const compare = async (what: string, read: (side: typeof src) => Promise<unknown>) => {
+    const [expected, actual] = [stringify(await read(src)), stringify(await read(dst))];
+    if (expected !== actual) mismatches.push(`${what}: source ${expected}, target ${actual}`);
+  };
+
+  for (const chain of migration.chains) {
+    const caip2 = `${chain.chainNamespace}:${chain.chainReference}`;
+    const caip2Hash = computeCaip2Hash(chain.chainNamespace, chain.chainReference);
+    await compare(`chainDataFromId(${chain.chainId})`, (x) => x.registry.chainDataFromId(chain.chainId));
+    await compare(`caip2HashToChainId(${caip2})`, (x) => x.registry.caip2HashToChainId(caip2Hash));
+    if (chain.coinType !== 0n) {
+      await compare(`ensCoinTypeToChainId(${chain.coinType})`, (x) => x.registry.ensCoinTypeToChainId(chain.coinType));
+    }
+  }
+
+  // Registries deployed before the lifecycle have no status or history views, and nothing to compare
+  if (migration.chains.some((x) => x.supersedes || x.deprecated)) {
+    for (const chain of migration.chains) {
+      await compare(`chainStatus(${chain.chainId})`, (x) => x.registry.chainStatus(chain.chainId));
+      await compare(`chainHistory(${chain.chainId})`, (x) => x.registry.chainHistory(chain.chainId));
+    }
+  }
+
+  for (const chainId of new Set(migration.labels.map((x) => x.chainId))) {
+    await compare(`chainIdToLabels(${chainId})`, (x) => x.resolver.chainIdToLabels(chainId));
+  }
+  for (const label of migration.labels) {
+    await compare(`nodeToChainId(${label.label})`, (x) => x.resolver.nodeToChainId(label.node));
+  }
+
+  return mismatches;
+}
+
+// Contract results (nested Results, bigints) as comparable JSON
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_, x) => (typeof x === "bigint" ? x.toString() : x));
+}
@@ -0,0 +1,88 @@
+/**
+ * @description Plans registrations against a live ChainRegistry: predicts each 7785 chain ID and detects
+ *              entries that are already registered, or that collide on name, CAIP-2 or coinType.
+ */
+
+import { ZeroHash, id } from "ethers";
+import { computeCaip2Hash } from "./CAIP2";
+import { ChainRegistryClient } from "./ChainRegistryClient";
+import { registryCoinType } from "./ENSCoinType";
+import { computeChainId } from "./ERC7785ChainId";
+import { validateManifest } from "./manifest";
+import { ChainData } from "./types";
+
+// register:   not yet registered and safe to submit
+// registered: already registered with identical data (re-runs skip these)
+// conflict:   would revert (name or CAIP-2 already taken by a different chain)
+// invalid:    failed offline validation
+export type PlanStatus = "register" | "registered" | "conflict" | "invalid";
+
+export type PlannedRegistration = {
+  readonly index: number;
+  readonly data: ChainData;
+  readonly chainId: string;
+  readonly caip2Hash: string;
+  readonly coinType: bigint;
+  readonly status: PlanStatus;
+  readonly errors: string[];
+  readonly warnings: string[];
+};
+
+export async function planRegistrations(
+  client: ChainRegistryClient,
+  entries: ChainData[]
+): Promise<PlannedRegistration[]> {
+  const validations = validateManifest(entries);
+  const contract = client.contract;
+
+  // coinType -> chain that will own the ensCoinTypeToChainId mapping
+  const claimed = new Map<bigint, string>();
+  const plan: PlannedRegistration[] = [];
+
+  for (const [index, data] of entries.entries()) {
+    const { errors, warnings } = validations[index];
+
+    if (errors.length > 0) {
+      plan.push({ index, data, chainId: ZeroHash, caip2Hash: ZeroHash, coinType: 0n, status: "invalid", errors, warnings });
+      continue;
+    }
+
+    const chainId = computeChainId(data);
+    const caip2Hash = computeCaip2Hash(data.chainNamespace, data.chainReference);
+    const coinType = registryCoinType(data);
+    let status: PlanStatus = "register";
+
+    // Checking the CAIP-2 mapping (rather than chainDataFromId) also catches chains with a zero rollupContract
+    if ((await contract.caip2HashToChainId(caip2Hash)) === chainId) {
+      status = "registered";
+    } else {
+      if (await contract.chainNameUsed(id(data.chainName))) {
+        errors.push(`chainName "${data.chainName}" is already registered (ChainNameAlreadyRegistered)`);
+      }
+      if (await contract.caip2HashUsed(caip2Hash)) {
+        errors.push(
+          `CAIP-2 ${data.chainNamespace}:${data.chainReference} is already registered (CAIP2HashAlreadyRegistered)`
+        );
+      }
+      if (errors.length > 0) status = "conflict";
+    }
+
+    if (coinType !== 0n) {
+      const owner: string = await contract.ensCoinTypeToChainId(coinType);
+      if (owner !== ZeroHash && owner !== chainId) {
+        warnings.push(`coinType ${coinType} is already mapped to ${owner}; this chain will not be reachable by coinType`);
+      } else if (status === "register" && claimed.has(coinType)) {
+        warnings.push(
+          `coinType ${coinType} is claimed earlier in the manifest by "${claimed.get(coinType)}"; this chain will not be reachable by coinType`
+        );
+      }
+      if (!claimed.has(coinType) && status !== "conflict") {
+        claimed.set(coinType, data.chainName);
+      }
+    }
+
+    plan.push({ index, data, chainId, caip2Hash, coinType, status, errors, warnings });
+  }
+
+  return plan;
+}
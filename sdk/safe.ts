@@ -0,0 +1,403 @@
+/**
+ * @description Safe Transaction Builder batches for the owner-gated operations (ChainRegistry.register,
+ *              ChainResolver.assign and transferOwnership), for when the registry owner is a Safe rather than an EOA.
+ *              Operations are planned against the live contracts, written as a Transaction Builder JSON batch
+ *              (https://help.safe.global/en/articles/40841-transaction-builder) and can be simulated on a fork by
+ *              impersonating the Safe.
+ *
+ *              Operations file:
+ *
+ *              {
+ *                "register": [ ChainData, ... ],            // or "manifest": "chains.csv"
+ *                "assign": [ { "label": "base", "caip2": "eip155:8453" }, { "label": "op", "chainId": "0x..." } ],
+ *                "transferOwnership": { "ChainRegistry": "0x...", "ChainResolver": "0x..." }
+ *              }
+ *
+ *              Assignments may name a chain registered earlier in the same batch by CAIP-2; its predicted 7785
+ *              chain ID is used. Batches run registrations, then assignments, then ownership transfers.
+ */
+
+import {
+  FunctionFragment,
+  Interface,
+  JsonRpcProvider,
+  JsonRpcSigner,
+  ParamType,
+  Result,
+  ZeroHash,
+  getAddress,
+  isHexString,
+  toBeHex,
+} from "ethers";
+import { readFile } from "fs/promises";
+import path from "path";
+import { CHAIN_REGISTRY_ABI, CHAIN_RESOLVER_ABI } from "./abis";
+import { computeCaip2Hash, parseCaip2 } from "./CAIP2";
+import { CID_ETH } from "./ChainResolver";
+import { ChainRegistryClient, decodeChainData, encodeChainData } from "./ChainRegistryClient";
+import { ChainResolverClient } from "./ChainResolverClient";
+import { computeChainId } from "./ERC7785ChainId";
+import { revertName } from "./errors";
+import { checkLabel } from "./labels";
+import { loadManifest, parseJsonManifest } from "./manifest";
+import { planRegistrations } from "./registration";
+import { ChainData } from "./types";
+
+export const OWNED_CONTRACTS = ["ChainRegistry", "ChainResolver"] as const;
+export type OwnedContract = (typeof OWNED_CONTRACTS)[number];
+
+// An assignment names its chain by 7785 chain ID or by CAIP-2
+export type AssignmentSpec = { label: string; chainId?: string; caip2?: string };
+
+export type SafeOperationsSpec = {
+  register?: ChainData[];
+  manifest?: string;
+  assign?: AssignmentSpec[];
+  transferOwnership?: Partial<Record<OwnedContract, string>>;
+};
+
+export type SafeOperation =
+  | { readonly type: "register"; readonly data: ChainData; readonly chainId: string }
+  | { readonly type: "assign"; readonly label: string; readonly chainId: string }
+  | { readonly type: "transferOwnership"; readonly contract: OwnedContract; readonly newOwner: string };
+
+export type SafeOperationsPlan = {
+  readonly operations: SafeOperation[];
+  // Operations dropped because they are already done on chain
+  readonly skipped: string[];
+  readonly warnings: string[];
+};
+
+// The Transaction Builder batch format
+export type SafeBatchInput = {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: SafeBatchInput[];
+};
+
+// An input value: a string, or for tuples and arrays a (nested) list of them
+export type SafeBatchValue = string | SafeBatchValue[];
+
+export type SafeBatchTransaction = {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: { name: string; payable: boolean; inputs: SafeBatchInput[] };
+  contractInputsValues: Record<string, string>;
+};
+
+export type SafeBatchFile = {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+};
+
+export type SafeBatchTargets = {
+  registry: string;
+  resolver?: string;
+};
+
+export type SafeBatchOptions = {
+  safe: string;
+  chainId: number;
+  name?: string;
+  createdAt?: number;
+};
+
+const REGISTRY_INTERFACE = new Interface(CHAIN_REGISTRY_ABI);
+const RESOLVER_INTERFACE = new Interface(CHAIN_RESOLVER_ABI);
+
+// Reads an operations file; a relative "manifest" path is resolved against the file's directory
+export async function loadSafeOperations(file: string): Promise<SafeOperationsSpec> {
+  const json = JSON.parse(await readFile(file, "utf8"));
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error(`${file}: expected an object with register, manifest, assign and/or transferOwnership`);
+  }
+  const spec: SafeOperationsSpec = { ...json };
+  if (json.register !== undefined) spec.register = parseJsonManifest(JSON.stringify(json.register));
+  if (json.manifest !== undefined) spec.manifest = path.resolve(path.dirname(file), json.manifest);
+  return spec;
+}
+
+// Plans the operations against the live contracts: validates everything, predicts 7785 chain IDs and drops
+// registrations and assignments that are already on chain. Throws if anything would revert.
+export async function planSafeOperations(
+  spec: SafeOperationsSpec,
+  registry: ChainRegistryClient,
+  resolver?: ChainResolverClient
+): Promise<SafeOperationsPlan> {
+  const operations: SafeOperation[] = [];
+  const skipped: string[] = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  // Registrations
+  const entries = [...(spec.register ?? []), ...(spec.manifest ? await loadManifest(spec.manifest) : [])];
+  const pending = new Map<string, string>();
+  for (const entry of await planRegistrations(registry, entries)) {
+    const caip2 = `${entry.data.chainNamespace}:${entry.data.chainReference}`;
+    for (const error of entry.errors) errors.push(`register #${entry.index} ${entry.data.chainName}: ${error}`);
+    for (const warning of entry.warnings) warnings.push(`register ${entry.data.chainName}: ${warning}`);
+    if (entry.status === "registered") {
+      skipped.push(`${entry.data.chainName} (${caip2}) is already registered as ${entry.chainId}`);
+    } else if (entry.status === "register") {
+      operations.push({ type: "register", data: entry.data, chainId: entry.chainId });
+      pending.set(caip2, entry.chainId);
+    }
+  }
+
+  // Assignments
+  if (spec.assign?.length && !resolver) errors.push("assignments need a ChainResolver");
+  for (const assignment of spec.assign ?? []) {
+    if (!resolver) break;
+    const check = checkLabel(assignment.label);
+    if (check.errors.length > 0) {
+      errors.push(`assign "${assignment.label}": ${check.errors.join("; ")}`);
+      continue;
+    }
+
+    let chainId = assignment.chainId;
+    if (chainId && !isHexString(chainId, 32)) {
+      errors.push(`assign "${check.label}": chainId "${chainId}" is not a 7785 chain ID (32-byte hex)`);
+      continue;
+    }
+    if (!chainId && assignment.caip2) {
+      const { namespace, reference } = parseCaip2(assignment.caip2);
+      chainId = pending.get(`${namespace}:${reference}`);
+      if (!chainId) {
+        const registered: string = await registry.contract.caip2HashToChainId(computeCaip2Hash(namespace, reference));
+        if (registered !== ZeroHash) chainId = registered;
+      }
+      if (!chainId) {
+        errors.push(`assign "${check.label}": ${assignment.caip2} is not registered, on chain or earlier in this batch`);
+        continue;
+      }
+    }
+    if (!chainId) {
+      errors.push(`assign "${check.label}": needs a chainId or caip2`);
+      continue;
+    }
+
+    const current = await resolver.chainIdForLabel(check.label);
+    if (current === chainId) {
+      skipped.push(`${check.name} is already assigned to ${chainId}`);
+    } else if (current !== null) {
+      errors.push(`assign "${check.label}": ${check.name} is already assigned to ${current} (LabelAlreadyAssigned)`);
+    } else if (operations.some((x) => x.type === "assign" && x.label === check.label)) {
+      errors.push(`assign "${check.label}": assigned twice in this batch (LabelAlreadyAssigned)`);
+    } else {
+      if (![...pending.values()].includes(chainId) && !(await registry.chainDataFromId(chainId))) {
+        warnings.push(`assign "${check.label}": ${chainId} is not a registered chain`);
+      }
+      operations.push({ type: "assign", label: check.label, chainId });
+    }
+  }
+
+  // Ownership transfers go last, once the Safe no longer needs to be the owner
+  for (const [contract, newOwner] of Object.entries(spec.transferOwnership ?? {})) {
+    if (!OWNED_CONTRACTS.includes(contract as OwnedContract)) {
+      errors.push(`transferOwnership: unknown contract ${contract} (expected ${OWNED_CONTRACTS.join(" or ")})`);
+    } else if (contract === "ChainResolver" && !resolver) {
+      errors.push("transferOwnership: no ChainResolver");
+    } else {
+      operations.push({ type: "transferOwnership", contract: contract as OwnedContract, newOwner: getAddress(newOwner) });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Cannot build the batch:\n  ${errors.join("\n  ")}`);
+  }
+  return { operations, skipped, warnings };
+}
+
+// Calldata for a single operation
+export function encodeOperation(operation: SafeOperation): string {
+  switch (operation.type) {
+    case "register":
+      return REGISTRY_INTERFACE.encodeFunctionData("register", [encodeChainData(operation.data)]);
+    case "assign":
+      return RESOLVER_INTERFACE.encodeFunctionData("assign", [operation.label, operation.chainId]);
+    case "transferOwnership":
+      return REGISTRY_INTERFACE.encodeFunctionData("transferOwnership", [operation.newOwner]);
+  }
+}
+
+// Decodes a batch transaction back into a human readable description, including the predicted 7785 chain ID
+// of registrations. Anything that is not one of the owner-gated operations is described by its selector.
+export function describeTransaction(tx: { to: string; data: string }, targets?: SafeBatchTargets): string {
+  const registry = REGISTRY_INTERFACE.parseTransaction({ data: tx.data });
+  if (registry?.name === "register") {
+    const data = decodeChainData(registry.args[0]);
+    return (
+      `ChainRegistry.register ${data.chainName} (${data.chainNamespace}:${data.chainReference}) ` +
+      `-> chain ID ${computeChainId(data)}`
+    );
+  }
+  if (registry?.name === "transferOwnership") {
+    const contract = sameAddress(tx.to, targets?.registry)
+      ? "ChainRegistry"
+      : sameAddress(tx.to, targets?.resolver)
+        ? "ChainResolver"
+        : tx.to;
+    return `${contract}.transferOwnership -> ${registry.args[0]}`;
+  }
+  const resolver = RESOLVER_INTERFACE.parseTransaction({ data: tx.data });
+  if (resolver?.name === "assign") {
+    return `ChainResolver.assign ${resolver.args[0]}.${CID_ETH} -> chain ID ${resolver.args[1]}`;
+  }
+  return `${tx.to} call ${tx.data.slice(0, 10)}`;
+}
+
+// Targets may come from the command line in any case
+function sameAddress(a: string, b?: string): boolean {
+  return b !== undefined && getAddress(a) === getAddress(b);
+}
+
+// ethers spells out tuple types ("tuple(string,uint256,...)"); ABI JSON just says "tuple" next to its components
+function toBatchInput(param: ParamType): SafeBatchInput {
+  const type = param.type.replace(/^tuple\(.*\)/, "tuple");
+  return {
+    name: param.name,
+    type,
+    internalType: type,
+    ...(param.components && { components: param.components.map(toBatchInput) }),
+  };
+}
+
+// Transaction Builder takes every input value as a string, tuples and arrays as JSON
+function toBatchValue(param: ParamType, value: unknown): SafeBatchValue {
+  if (param.isTuple()) return param.components.map((x, i) => toBatchValue(x, (value as ArrayLike<unknown>)[i]));
+  if (param.isArray()) return Array.from(value as ArrayLike<unknown>, (x) => toBatchValue(param.arrayChildren, x));
+  return String(value);
+}
+
+function toBatchTransaction(to: string, data: string): SafeBatchTransaction {
+  const iface = REGISTRY_INTERFACE.parseTransaction({ data }) ? REGISTRY_INTERFACE : RESOLVER_INTERFACE;
+  const parsed = iface.parseTransaction({ data })!;
+  const fragment: FunctionFragment = parsed.fragment;
+  const args: Result = parsed.args;
+  return {
+    to,
+    value: "0",
+    data,
+    contractMethod: { name: fragment.name, payable: fragment.payable, inputs: fragment.inputs.map(toBatchInput) },
+    contractInputsValues: Object.fromEntries(
+      fragment.inputs.map((param, i) => {
+        const value = toBatchValue(param, args[i]);
+        return [param.name, typeof value === "string" ? value : JSON.stringify(value)];
+      })
+    ),
+  };
+}
+
+// Builds the Transaction Builder batch for a planned set of operations
+export function buildSafeBatch(
+  operations: SafeOperation[],
+  targets: SafeBatchTargets,
+  options: SafeBatchOptions
+): SafeBatchFile {
+  const transactions = operations.map((operation) => {
+    const to =
+      operation.type === "register" || (operation.type === "transferOwnership" && operation.contract === "ChainRegistry")
+        ? targets.registry
+        : targets.resolver;
+    if (!to) throw new Error(`No ChainResolver address for ${operation.type}`);
+    return toBatchTransaction(getAddress(to), encodeOperation(operation));
+  });
+
+  const description = transactions.map((tx, i) => `${i + 1}. ${describeTransaction(tx, targets)}`).join("\n");
+
+  return {
+    version: "1.0",
+    chainId: String(options.chainId),
+    createdAt: options.createdAt ?? Date.now(),
+    meta: {
+      name: options.name ?? `ERC-7785 registry operations (${transactions.length})`,
+      description,
+      txBuilderVersion: "1.16.5",
+      createdFromSafeAddress: getAddress(options.safe),
+      createdFromOwnerAddress: "",
+    },
+    transactions,
+  };
+}
+
+export type SimulatedTransaction = {
+  readonly index: number;
+  readonly description: string;
+  readonly ok: boolean;
+  readonly gasUsed?: bigint;
+  // Decoded custom error name, or the provider's message
+  readonly error?: string;
+};
+
+// Upper bound for one owner-gated call (register with long strings is about 450k)
+const SIMULATION_GAS_PER_TRANSACTION = 1_000_000n;
+
+// ethers errors carry a one-line shortMessage next to the full message
+function shortMessage(err: unknown): string | undefined {
+  if (typeof err !== "object" || err === null || !("shortMessage" in err)) return undefined;
+  return typeof err.shortMessage === "string" ? err.shortMessage : undefined;
+}
+
+// Executes every batch transaction from the Safe on a throwaway node (an anvil fork), by impersonating the Safe.
+// A Safe executes the batch through MultiSend, so the target contracts see the Safe as msg.sender, as here.
+// State changes persist on the node: later transactions see the effects of earlier ones.
+// Transactions are described as in the batch export when given the same targets.
+export async function simulateSafeBatch(
+  provider: JsonRpcProvider,
+  batch: SafeBatchFile,
+  targets?: SafeBatchTargets
+): Promise<SimulatedTransaction[]> {
+  const safe = getAddress(batch.meta.createdFromSafeAddress);
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== BigInt(batch.chainId)) {
+    throw new Error(`Batch is for chain ${batch.chainId}, but the node is chain ${chainId}`);
+  }
+
+  await provider.send("anvil_impersonateAccount", [safe]);
+  // Gas money for the impersonated Safe, only when its own (forked) balance does not cover the batch
+  const { maxFeePerGas, gasPrice } = await provider.getFeeData();
+  const needed = batch.transactions.reduce(
+    (sum, tx) => sum + BigInt(tx.value) + SIMULATION_GAS_PER_TRANSACTION * (maxFeePerGas ?? gasPrice ?? 0n),
+    0n
+  );
+  if ((await provider.getBalance(safe)) < needed) {
+    await provider.send("anvil_setBalance", [safe, toBeHex(needed)]);
+  }
+  const signer = new JsonRpcSigner(provider, safe);
+
+  const results: SimulatedTransaction[] = [];
+  try {
+    for (const [index, tx] of batch.transactions.entries()) {
+      const description = describeTransaction(tx, targets);
+      const call = { from: safe, to: tx.to, data: tx.data, value: BigInt(tx.value) };
+      try {
+        // Call first so custom errors surface with their revert data rather than as a gas estimation failure
+        await provider.call(call);
+        const sent = await signer.sendTransaction(call);
+        const receipt = await sent.wait();
+        results.push({ index, description, ok: true, gasUsed: receipt!.gasUsed });
+      } catch (err) {
+        const error =
+          revertName(REGISTRY_INTERFACE, err) ??
+          revertName(RESOLVER_INTERFACE, err) ??
+          shortMessage(err) ??
+          String(err);
+        results.push({ index, description, ok: false, error });
+      }
+    }
+  } finally {
+    await provider.send("anvil_stopImpersonatingAccount", [safe]);
+  }
+  return results;
+}
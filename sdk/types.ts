@@ -0,0 +1,28 @@
+/**
+ * @description Shared types mirroring the Solidity structs in src/interfaces/IChainRegistry.sol
+ */
+
+import { BigNumberish } from "ethers";
+
+// Mirrors the ChainData struct - the same shape the tests pass to ChainRegistry.register
+export type ChainData = {
+  chainName: string;
+  settlementChainId: BigNumberish;
+  version: string;
+  rollupContract: string;
+  chainNamespace: string;
+  chainReference: string;
+  coinType: BigNumberish;
+};
+
+// ChainData as returned by the registry getters, along with its 7785 chain ID
+export type RegisteredChainData = ChainData & {
+  chainId: string;
+  settlementChainId: bigint;
+  coinType: bigint;
+};
+
+// Mirrors the ChainStatus enum, in declaration order
+export const CHAIN_STATUSES = ["unregistered", "active", "superseded", "deprecated"] as const;
+
+export type ChainStatus = (typeof CHAIN_STATUSES)[number];
@@ -0,0 +1,43 @@
+/**
+ * @description Serves the read-only chain lookup API (server/api.ts) over HTTP.
+ * @usage       bun run server/ServeApi.ts --chain=sepolia [--rpc=http://...] [--port=8080] [--cache-ttl=60000] [--registry=0x...] [--resolver=0x...]
+ *              bun run server/ServeApi.ts --chain=local --registry=0x... --resolver=0x...
+ */
+
+import { JsonRpcProvider } from "ethers";
+import { resolveNetwork } from "../deploy/networks";
+import { loadDeployment, parseArgs } from "../deploy/utils";
+import { createChainApiServer } from "./api";
+
+const args = await parseArgs(["chain"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+// Any configured network; --rpc= overrides its URL
+const network = await resolveNetwork(args.get("chain"), { rpc: args.get("rpc") }).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const provider = new JsonRpcProvider(network.rpc, network.chainId, { staticNetwork: true });
+const chainId = network.chainId;
+
+const registry = args.get("registry") ?? (await loadDeployment(chainId, "ChainRegistry")).target;
+const resolver =
+  args.get("resolver") ?? (await loadDeployment(chainId, "ChainResolver").catch(() => undefined))?.target;
+
+const port = Number(args.get("port") ?? 8080);
+
+const server = createChainApiServer({
+  runner: provider,
+  registry,
+  resolver,
+  cacheTtlMs: Number(args.get("cache-ttl") ?? 0),
+});
+
+server.listen(port, () => {
+  console.log(`Chain API listening on http://localhost:${port}`);
+  console.log(`ChainRegistry: ${registry}`);
+  console.log(`ChainResolver: ${resolver ?? "(none)"}`);
+});
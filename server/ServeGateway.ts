@@ -0,0 +1,35 @@
+/**
+ * @description Serves the CCIP-Read gateway (server/gateway.ts) for the ChainResolver's offchain text records.
+ *              Responses are signed with GATEWAY_PK; its address must be an allowed signer on the ChainResolver
+ *              (see deploy/ConfigureGateway.ts).
+ * @usage       bun run server/ServeGateway.ts --store=records.json [--port=8081] [--ttl=300]
+ */
+
+import "dotenv/config";
+import { SigningKey, computeAddress } from "ethers";
+import { parseArgs, setOrDie } from "../deploy/utils";
+import { createGatewayServer, loadRecordStore } from "./gateway";
+
+const args = await parseArgs(["store"]).catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+const privateKey = process.env.GATEWAY_PK;
+setOrDie(privateKey, "Gateway signing key (GATEWAY_PK)");
+
+const signingKey = new SigningKey(privateKey);
+const store = await loadRecordStore(args.get("store"));
+const port = Number(args.get("port") ?? 8081);
+
+const server = createGatewayServer({
+  signingKey,
+  store,
+  ttlSeconds: Number(args.get("ttl") ?? 300),
+});
+
+server.listen(port, () => {
+  console.log(`CCIP-Read gateway listening on http://localhost:${port}/{sender}/{data}.json`);
+  console.log(`Signer: ${computeAddress(signingKey)}`);
+  console.log(`Names: ${Object.keys(store).length}`);
+});
@@ -0,0 +1,190 @@
+/**
+ * @description Read-only HTTP JSON API over a ChainRegistry and ChainResolver deployment.
+ *
+ *              GET /chains/:chainId                  lookup by 7785 chain ID (bytes32 hex)
+ *              GET /caip2/:namespace/:reference      lookup by CAIP-2 pair (ChainRegistry.chainDataFromCaip2)
+ *              GET /cointype/:coinType               lookup by ENS coinType (ChainRegistry.chainDataFromEnsCoinType)
+ *              GET /labels/:label                    lookup by cid.eth label (ChainResolver.nodeToChainId, then the
+ *                                                    chain's latest entry if it was superseded)
+ *
+ *              200 response (ChainResponse):
+ *              {
+ *                "chainId": "0x…",                // 7785 chain ID (bytes32 hex)
+ *                "chainName": "base",
+ *                "settlementChainId": "8453",     // uint256 as a decimal string
+ *                "version": "1",
+ *                "rollupContract": "0x…",         // checksummed address
+ *                "chainNamespace": "eip155",
+ *                "chainReference": "8453",
+ *                "caip2": "eip155:8453",          // derived: namespace:reference
+ *                "coinType": "2147492101",        // ENS coinType as stored (ENSIP-11 for eip155), decimal string
+ *                "label": "base",                 // only on /labels
+ *                "ensName": "base.cid.eth"        // only on /labels
+ *              }
+ *
+ *              Errors are { "error": string } with status 400 (malformed input), 404 (not found) or 500.
+ *              Responses carry an X-Cache header (HIT or MISS) when caching is enabled.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { Contract, ContractRunner, MaxUint256, ZeroHash, isHexString } from "ethers";
+import { CHAIN_RESOLVER_ABI } from "../sdk/abis";
+import { CID_ETH, computeNode } from "../sdk/ChainResolver";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { RegisteredChainData } from "../sdk/types";
+
+export type ChainResponse = {
+  chainId: string;
+  chainName: string;
+  settlementChainId: string;
+  version: string;
+  rollupContract: string;
+  chainNamespace: string;
+  chainReference: string;
+  caip2: string;
+  coinType: string;
+  label?: string;
+  ensName?: string;
+};
+
+export type ChainApiOptions = {
+  runner: ContractRunner;
+  registry: string;
+  resolver?: string;
+  // Cache successful lookups for this long (0 or omitted disables caching)
+  cacheTtlMs?: number;
+};
+
+type ApiResult = { status: number; body: ChainResponse | { error: string } };
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export function toChainResponse(data: RegisteredChainData): ChainResponse {
+  return {
+    chainId: data.chainId,
+    chainName: data.chainName,
+    settlementChainId: data.settlementChainId.toString(),
+    version: data.version,
+    rollupContract: data.rollupContract,
+    chainNamespace: data.chainNamespace,
+    chainReference: data.chainReference,
+    caip2: `${data.chainNamespace}:${data.chainReference}`,
+    coinType: data.coinType.toString(),
+  };
+}
+
+export class ChainApi {
+  readonly registry: ChainRegistryClient;
+  readonly resolver: Contract | null;
+  readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, { expires: number; result: ApiResult }>();
+
+  constructor(options: ChainApiOptions) {
+    this.registry = new ChainRegistryClient(options.registry, options.runner);
+    this.resolver = options.resolver ? new Contract(options.resolver, CHAIN_RESOLVER_ABI, options.runner) : null;
+    this.cacheTtlMs = options.cacheTtlMs ?? 0;
+  }
+
+  // Routes a request path to a lookup
+  async handle(pathname: string): Promise<ApiResult & { cache?: "HIT" | "MISS" }> {
+    const cached = this.cache.get(pathname);
+    if (cached && cached.expires > Date.now()) {
+      return { ...cached.result, cache: "HIT" };
+    }
+
+    let result: ApiResult;
+    try {
+      result = { status: 200, body: await this.route(pathname) };
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      result = { status, body: { error: err instanceof Error ? err.message : String(err) } };
+    }
+
+    if (this.cacheTtlMs > 0 && result.status === 200) {
+      this.cache.set(pathname, { expires: Date.now() + this.cacheTtlMs, result });
+      return { ...result, cache: "MISS" };
+    }
+    return result;
+  }
+
+  private async route(pathname: string): Promise<ChainResponse> {
+    const parts = pathname.split("/").filter(Boolean).map(decodeSegment);
+
+    switch (parts[0]) {
+      case "chains":
+        if (parts.length === 2) return this.byChainId(parts[1]);
+        break;
+      case "caip2":
+        if (parts.length === 3) return this.found(await this.registry.chainDataFromCaip2(parts[1], parts[2]));
+        break;
+      case "cointype":
+        if (parts.length === 2) return this.byCoinType(parts[1]);
+        break;
+      case "labels":
+        if (parts.length === 2) return this.byLabel(parts[1]);
+        break;
+    }
+    throw new HttpError(404, `Unknown route ${pathname}`);
+  }
+
+  private found(data: RegisteredChainData | null): ChainResponse {
+    if (!data) throw new HttpError(404, "Chain not found");
+    return toChainResponse(data);
+  }
+
+  private async byChainId(chainId: string) {
+    if (!isHexString(chainId, 32)) throw new HttpError(400, `Invalid chain ID "${chainId}": expected bytes32 hex`);
+    return this.found(await this.registry.chainDataFromId(chainId));
+  }
+
+  private async byCoinType(coinType: string) {
+    if (!/^[0-9]+$/.test(coinType)) throw new HttpError(400, `Invalid coinType "${coinType}": expected a decimal integer`);
+    if (BigInt(coinType) > MaxUint256) throw new HttpError(400, `Invalid coinType "${coinType}": exceeds uint256`);
+    return this.found(await this.registry.chainDataFromEnsCoinType(BigInt(coinType)));
+  }
+
+  private async byLabel(label: string) {
+    if (!this.resolver) throw new HttpError(404, "No ChainResolver configured");
+    const chainId: string = await this.resolver.nodeToChainId(computeNode(label));
+    if (chainId === ZeroHash) throw new HttpError(404, `Label "${label}" is not assigned`);
+    // Resolve like the ChainResolver does: to the latest entry of the assigned chain
+    const data = await this.registry.currentChainDataFromId(chainId);
+    return { ...this.found(data), label, ensName: `${label}.${CID_ETH}` };
+  }
+}
+
+// Path segments arrive percent-encoded; a malformed escape (e.g. "%E0") is the client's error
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment "${segment}"`);
+  }
+}
+
+// Creates (but does not start) an HTTP server for the API
+export function createChainApiServer(options: ChainApiOptions): Server {
+  const api = new ChainApi(options);
+
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET") {
+      res.writeHead(405, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Method not allowed" }));
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const { status, body, cache } = await api.handle(pathname);
+
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      ...(cache ? { "X-Cache": cache } : {}),
+    });
+    res.end(JSON.stringify(body));
+  });
+}
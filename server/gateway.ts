@@ -0,0 +1,189 @@
+/**
+ * @description EIP-3668 (CCIP-Read) gateway for the ChainResolver's offchain text records.
+ *
+ *              The ChainResolver answers `chain-id` and the registry-derived keys (caip2, coin-type, chain-name, version,
+ *              rollup-contract, settlement-chain-id) onchain. For any other text key it reverts with OffchainLookup,
+ *              pointing the client here with callData = resolve(bytes name, bytes data).
+ *              The gateway looks the record up in a local JSON store and returns a signed response:
+ *
+ *                abi.encode(bytes result, uint64 expires, bytes sig)
+ *
+ *              where sig signs keccak256(0x1900 ‖ resolver ‖ expires ‖ keccak256(callData) ‖ keccak256(result))
+ *              (ChainResolver.makeSignatureHash). The resolver only accepts signatures from its allowed signers.
+ *
+ *              Store format (JSON), keyed by full ENS name:
+ *              {
+ *                "base.cid.eth": { "url": "https://base.org", "description": "Base mainnet" }
+ *              }
+ *
+ *              GET  /:sender/:data.json          (EIP-3668 URL template "…/{sender}/{data}.json")
+ *              POST /  { "sender", "data" }      (EIP-3668 URL without {data})
+ *              200 response: { "data": "0x…" }; errors are { "message": string } with status 400, 404 or 500.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { readFile } from "fs/promises";
+import {
+  AbiCoder,
+  BytesLike,
+  Interface,
+  SigningKey,
+  getAddress,
+  getBytes,
+  isAddress,
+  isHexString,
+  keccak256,
+  namehash,
+  solidityPacked,
+  toUtf8String,
+} from "ethers";
+
+export type TextRecordStore = Record<string, Record<string, string>>;
+
+export type GatewayOptions = {
+  // Key whose address is an allowed signer on the ChainResolver
+  signingKey: SigningKey | string;
+  store: TextRecordStore;
+  // How long a signed response stays valid (default 5 minutes)
+  ttlSeconds?: number;
+};
+
+const GATEWAY_INTERFACE = new Interface([
+  "function resolve(bytes name, bytes data) view returns (bytes result, uint64 expires, bytes sig)",
+]);
+
+const RESOLVER_INTERFACE = new Interface(["function text(bytes32 node, string key) view returns (string)"]);
+
+class GatewayError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Reads a JSON text record store from disk
+export async function loadRecordStore(file: string): Promise<TextRecordStore> {
+  const store = JSON.parse(await readFile(file, "utf8"));
+  if (typeof store !== "object" || store === null || Array.isArray(store)) {
+    throw new Error(`${file}: expected an object keyed by ENS name`);
+  }
+  return store;
+}
+
+// Decodes a DNS wire-format name (as passed to ENSIP-10 resolve) into a dotted name
+export function dnsDecode(name: BytesLike): string {
+  const bytes = getBytes(name);
+  const labels: string[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const length = bytes[offset];
+    if (length === 0) break;
+    if (offset + 1 + length > bytes.length) throw new Error("Malformed DNS-encoded name");
+    labels.push(toUtf8String(bytes.slice(offset + 1, offset + 1 + length)));
+    offset += 1 + length;
+  }
+
+  return labels.join(".");
+}
+
+// Mirrors ChainResolver.makeSignatureHash
+export function makeSignatureHash(target: string, expires: bigint, request: BytesLike, result: BytesLike): string {
+  return keccak256(
+    solidityPacked(
+      ["bytes2", "address", "uint64", "bytes32", "bytes32"],
+      ["0x1900", target, expires, keccak256(request), keccak256(result)],
+    ),
+  );
+}
+
+export class CcipGateway {
+  readonly signingKey: SigningKey;
+  readonly store: TextRecordStore;
+  readonly ttlSeconds: number;
+
+  // namehash -> ENS name, so text(node, key) can be answered by node
+  private readonly names: Map<string, string>;
+
+  constructor(options: GatewayOptions) {
+    this.signingKey =
+      typeof options.signingKey === "string" ? new SigningKey(options.signingKey) : options.signingKey;
+    this.store = options.store;
+    this.ttlSeconds = options.ttlSeconds ?? 300;
+    this.names = new Map(Object.keys(this.store).map((name) => [namehash(name), name]));
+  }
+
+  // Answers a CCIP-Read request: sender is the resolver that reverted, data is its callData
+  handle(sender: string, data: string): string {
+    if (!isAddress(sender)) throw new GatewayError(400, `Invalid sender "${sender}"`);
+    if (!isHexString(data)) throw new GatewayError(400, "Invalid data: expected hex");
+
+    let name: string, inner: string;
+    try {
+      [name, inner] = GATEWAY_INTERFACE.decodeFunctionData("resolve", data);
+    } catch {
+      throw new GatewayError(400, "Invalid data: expected resolve(bytes,bytes)");
+    }
+
+    const result = this.resolve(dnsDecode(name), inner);
+    const expires = BigInt(Math.floor(Date.now() / 1000) + this.ttlSeconds);
+    const sig = this.signingKey.sign(makeSignatureHash(getAddress(sender), expires, data, result)).serialized;
+
+    return AbiCoder.defaultAbiCoder().encode(["bytes", "uint64", "bytes"], [result, expires, sig]);
+  }
+
+  // Returns the ABI-encoded answer to the inner resolver call
+  private resolve(name: string, data: string): string {
+    let node: string, key: string;
+    try {
+      [node, key] = RESOLVER_INTERFACE.decodeFunctionData("text", data);
+    } catch {
+      throw new GatewayError(400, "Unsupported resolver function: only text(bytes32,string) is served");
+    }
+
+    // The DNS name and the node must agree; otherwise fall back to looking up by node
+    const recordName = namehash(name) === node ? name : this.names.get(node);
+    if (!recordName || !this.store[recordName]) throw new GatewayError(404, `No records for ${name}`);
+
+    // Missing keys resolve to the empty string, as with onchain text records
+    return RESOLVER_INTERFACE.encodeFunctionResult("text", [this.store[recordName][key] ?? ""]);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// Creates (but does not start) an HTTP server for the gateway
+export function createGatewayServer(options: GatewayOptions): Server {
+  const gateway = new CcipGateway(options);
+
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let status = 200;
+    let body: { data: string } | { message: string };
+
+    try {
+      let sender: string, data: string;
+      if (req.method === "GET") {
+        const parts = new URL(req.url ?? "/", "http://localhost").pathname.split("/").filter(Boolean);
+        if (parts.length !== 2 || !parts[1].endsWith(".json")) throw new GatewayError(404, "Unknown route");
+        [sender, data] = [parts[0], parts[1].slice(0, -".json".length)];
+      } else if (req.method === "POST") {
+        ({ sender, data } = JSON.parse(await readBody(req)));
+      } else {
+        throw new GatewayError(405, "Method not allowed");
+      }
+      body = { data: gateway.handle(sender, data) };
+    } catch (err) {
+      status = err instanceof GatewayError ? err.status : err instanceof SyntaxError ? 400 : 500;
+      body = { message: err instanceof Error ? err.message : String(err) };
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(JSON.stringify(body));
+  });
+}
@@ -12,7 +12,7 @@ pragma solidity ^0.8.25;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
-import {IChainRegistry, ChainData} from "./interfaces/IChainRegistry.sol";
+import {IChainRegistry, ChainData, ChainStatus} from "./interfaces/IChainRegistry.sol";
 import {ERC7785ChainId} from "./libs/ERC7785ChainId.sol";
 import {CAIP2} from "./libs/CAIP2.sol";
 import {ENSCoinType} from "./libs/ENSCoinType.sol";
@@ -33,6 +33,13 @@ contract ChainRegistry is Ownable, IChainRegistry {
     // Mapping of ENS coinType to chain ID
     mapping(uint256 => bytes32) public ensCoinTypeToChainId;
 
+    // Lifecycle: the entry that replaced a chain, and the entry a chain replaced
+    mapping(bytes32 => bytes32) public supersededBy;
+    mapping(bytes32 => bytes32) public supersedes;
+
+    // Chains retired without a replacement
+    mapping(bytes32 => bool) public deprecated;
+
 
     constructor() Ownable(msg.sender) {}
 
@@ -40,17 +47,72 @@ contract ChainRegistry is Ownable, IChainRegistry {
     /// @param _chainData the data used to discern the 7785 chain ID
     /// @dev Sets up CAIP-2 reverse lookup for efficient chain resolution
     function register(ChainData calldata _chainData) external onlyOwner returns (bytes32) {
-        return _register(_chainData);
+        return _register(_chainData, bytes32(0));
     }
 
     /// @notice DEMO-ONLY: Unrestricted register for the demo UI. Do NOT use in production.
     /// @dev     Calls shared internal logic without access control. Left intentionally open for demos.
     function demoRegister(ChainData calldata _chainData) external returns (bytes32) {
-        return _register(_chainData);
+        return _register(_chainData, bytes32(0));
     }
 
-    /// @notice Shared registration logic used by both owner-gated and demo entrypoints
-    function _register(ChainData calldata _chainData) internal returns (bytes32) {
+    /// @notice Registers replacement ChainData for a chain (e.g. a new rollup contract or version) and moves the
+    ///         old chain's CAIP-2 and coinType lookups to the new 7785 chain ID
+    /// @param oldChainId The chain being replaced; it must be registered, not superseded and not deprecated
+    /// @param _chainData The replacement data, which may reuse the old chain's name and CAIP-2 pair
+    /// @return The new 7785 chain ID
+    /// @dev Only callable by the owner. The old entry is kept, so chainDataFromId and chainHistory still return it
+    function supersede(bytes32 oldChainId, ChainData calldata _chainData) external onlyOwner returns (bytes32) {
+        _requireCurrent(oldChainId);
+        bytes32 newChainId = _register(_chainData, oldChainId);
+
+        supersededBy[oldChainId] = newChainId;
+        supersedes[newChainId] = oldChainId;
+
+        // Lookups that resolved to the old chain now resolve to its replacement
+        ChainData storage old = chainData[oldChainId];
+        caip2HashToChainId[CAIP2.computeCaip2Hash(old.chainNamespace, old.chainReference)] = newChainId;
+        if (old.coinType != 0 && ensCoinTypeToChainId[old.coinType] == oldChainId) {
+            ensCoinTypeToChainId[old.coinType] = newChainId;
+        }
+
+        emit ChainSuperseded(oldChainId, newChainId);
+
+        return newChainId;
+    }
+
+    /// @notice Marks a chain as retired without a replacement. Its entry and lookups are kept
+    /// @param chainId The chain to deprecate; it must be registered, not superseded and not deprecated
+    /// @dev Only callable by the owner
+    function deprecate(bytes32 chainId) external onlyOwner {
+        _requireCurrent(chainId);
+        deprecated[chainId] = true;
+        emit ChainDeprecated(chainId);
+    }
+
+    /// @notice Reverts unless the chain is registered and is the current (active) entry
+    function _requireCurrent(bytes32 chainId) internal view {
+        if (!_isRegistered(chainId)) {
+            revert ChainNotRegistered();
+        }
+        if (supersededBy[chainId] != bytes32(0)) {
+            revert ChainAlreadySuperseded();
+        }
+        if (deprecated[chainId]) {
+            revert ChainIsDeprecated();
+        }
+    }
+
+    /// @notice Registered chains always have a name (unlike rollupContract, which may be zero)
+    /// @dev    Status, history and re-registration use this; chainDataFromId keeps reporting a chain without a
+    ///         rollup contract as not existing
+    function _isRegistered(bytes32 chainId) internal view returns (bool) {
+        return bytes(chainData[chainId].chainName).length != 0;
+    }
+
+    /// @notice Shared registration logic used by the owner-gated, demo and supersede entrypoints
+    /// @param predecessor The chain being superseded (zero for a new chain), whose name and CAIP-2 pair may be reused
+    function _register(ChainData calldata _chainData, bytes32 predecessor) internal returns (bytes32) {
 
         // Validate that chainName is not empty
         if (bytes(_chainData.chainName).length == 0) {
@@ -59,13 +121,15 @@ contract ChainRegistry is Ownable, IChainRegistry {
 
         // Enforce unique human-readable chainName
         bytes32 nameHash = keccak256(abi.encodePacked(_chainData.chainName));
-        if (chainNameUsed[nameHash]) {
+        ChainData storage replaced = chainData[predecessor];
+        bool replacesName = predecessor != bytes32(0) && nameHash == keccak256(abi.encodePacked(replaced.chainName));
+        if (chainNameUsed[nameHash] && !replacesName) {
             revert ChainNameAlreadyRegistered();
         }
 
         bytes32 chainId = ERC7785ChainId.computeChainId(_chainData);
 
-        if (chainData[chainId].rollupContract != address(0)) {
+        if (_isRegistered(chainId)) {
             revert ChainAlreadyRegistered();
         }
 
@@ -84,7 +148,9 @@ contract ChainRegistry is Ownable, IChainRegistry {
 
         // Compute CAIP-2 hash once and map it to the chain ID (enforce uniqueness)
         bytes32 caip2Hash = CAIP2.computeCaip2Hash(_chainData.chainNamespace, _chainData.chainReference);
-        if (caip2HashUsed[caip2Hash]) {
+        bool replacesCaip2 = predecessor != bytes32(0)
+            && caip2Hash == CAIP2.computeCaip2Hash(replaced.chainNamespace, replaced.chainReference);
+        if (caip2HashUsed[caip2Hash] && !replacesCaip2) {
             revert CAIP2HashAlreadyRegistered();
         }
         caip2HashToChainId[caip2Hash] = chainId;
@@ -132,4 +198,56 @@ contract ChainRegistry is Ownable, IChainRegistry {
     function chainDataFromEnsCoinType(uint256 ensCoinType) external view returns (bool exists, ChainData memory) {
         return chainDataFromId(ensCoinTypeToChainId[ensCoinType]);
     }
+
+    /// @notice Where a chain is in its lifecycle
+    /// @param chainId The 7785 chain ID
+    /// @return Unregistered, Active, Superseded (replaced by a newer entry) or Deprecated (retired)
+    function chainStatus(bytes32 chainId) external view returns (ChainStatus) {
+        if (!_isRegistered(chainId)) {
+            return ChainStatus.Unregistered;
+        }
+        if (supersededBy[chainId] != bytes32(0)) {
+            return ChainStatus.Superseded;
+        }
+        return deprecated[chainId] ? ChainStatus.Deprecated : ChainStatus.Active;
+    }
+
+    /// @notice Follows supersessions to the latest entry for a chain
+    /// @param chainId Any 7785 chain ID the chain has had
+    /// @return The latest 7785 chain ID (chainId itself if it was never superseded, zero if it is not registered)
+    function currentChainId(bytes32 chainId) external view returns (bytes32) {
+        if (!_isRegistered(chainId)) {
+            return bytes32(0);
+        }
+        while (supersededBy[chainId] != bytes32(0)) {
+            chainId = supersededBy[chainId];
+        }
+        return chainId;
+    }
+
+    /// @notice Every entry a chain has had, from its first registration to its latest
+    /// @param chainId Any 7785 chain ID the chain has had
+    /// @return history The 7785 chain IDs in order (empty if chainId is not registered)
+    function chainHistory(bytes32 chainId) external view returns (bytes32[] memory history) {
+        if (!_isRegistered(chainId)) {
+            return history;
+        }
+
+        bytes32 first = chainId;
+        uint256 length = 1;
+        while (supersedes[first] != bytes32(0)) {
+            first = supersedes[first];
+            length++;
+        }
+        for (bytes32 id = chainId; supersededBy[id] != bytes32(0); id = supersededBy[id]) {
+            length++;
+        }
+
+        history = new bytes32[](length);
+        bytes32 next = first;
+        for (uint256 i = 0; i < length; i++) {
+            history[i] = next;
+            next = supersededBy[next];
+        }
+    }
 }
@@ -4,7 +4,11 @@ pragma solidity ^0.8.25;
 /**
  * @title  ERC-7785 Chain Resolver
  * @notice Resolves the chain ID for a given subname
- * @dev    Resolution is done via ENSIP-10
+ * @dev    Resolution is done via ENSIP-10. The `chain-id` text record, text records derived from the registered
+ *         ChainData and addr records (the rollup contract) are answered onchain. All other text records are
+ *         answered offchain by a signed CCIP-Read gateway (EIP-3668)
+ *         Labels stay assigned to the chain ID they were given; records follow supersessions in the ChainRegistry,
+ *         so a label resolves to its chain's latest entry
  *
  * @author Thomas Clowes (clowes.eth)
  * @date   2025-08-22
@@ -12,8 +16,9 @@ pragma solidity ^0.8.25;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
-import {IChainRegistry} from "./interfaces/IChainRegistry.sol";
+import {IChainRegistry, ChainData} from "./interfaces/IChainRegistry.sol";
 
 //import "forge-std/console.sol";
 
@@ -22,11 +27,24 @@ interface IENSIP10 {
     function resolve(bytes calldata name, bytes calldata data) external view returns (bytes memory);
 }
 
+// EIP-3668 gateway interface - the callData sent to the gateway
+interface IResolverService {
+    function resolve(bytes calldata name, bytes calldata data)
+        external
+        view
+        returns (bytes memory result, uint64 expires, bytes memory sig);
+}
+
 contract ChainResolver is Ownable, IERC165, IENSIP10 {
 
     error ChainNameEmpty();
     error UnsupportedFunction();
     error LabelAlreadyAssigned();
+    error GatewayResponseExpired();
+    error InvalidGatewaySignature();
+
+    // EIP-3668
+    error OffchainLookup(address sender, string[] urls, bytes callData, bytes4 callbackFunction, bytes extraData);
 
     // The ChainRegistry contract
     IChainRegistry public immutable CHAIN_REGISTRY;
@@ -34,17 +52,44 @@ contract ChainResolver is Ownable, IERC165, IENSIP10 {
     // Mapping from ENS node to chain ID
     mapping(bytes32 => bytes32) public nodeToChainId;
 
+    // Reverse mapping from chain ID to every label assigned to it, in assignment order
+    mapping(bytes32 => string[]) private chainIdLabels;
+
+    // CCIP-Read gateway URLs for offchain text records
+    string[] public gatewayUrls;
+
+    // Addresses whose signatures are accepted on gateway responses
+    mapping(address => bool) public signers;
+
     // Events
     event NodeAssigned(bytes32 indexed node, string indexed label, bytes32 indexed chainId);
+    event GatewayUrlsChanged(string[] urls);
+    event SignerChanged(address indexed signer, bool enabled);
 
     // Function selectors
     bytes4 private constant TEXT_SELECTOR = bytes4(keccak256("text(bytes32,string)"));
+    bytes4 private constant ADDR_SELECTOR = bytes4(keccak256("addr(bytes32)"));
+    bytes4 private constant ADDR_COINTYPE_SELECTOR = bytes4(keccak256("addr(bytes32,uint256)"));
 
     // Interface IDs
     bytes4 private constant ERC165_INTERFACE_ID = 0x01ffc9a7;
-    bytes4 private constant RESOLVER_INTERFACE_ID = 0x3b3b57de; // text(bytes32,string)
+    bytes4 private constant ADDR_INTERFACE_ID = 0x3b3b57de; // addr(bytes32)
+    bytes4 private constant ADDRESS_INTERFACE_ID = 0xf1cb7e06; // addr(bytes32,uint256)
+    bytes4 private constant TEXT_INTERFACE_ID = 0x59d1d43c; // text(bytes32,string)
     bytes4 private constant ENSIP10_INTERFACE_ID = 0x9061b923; // resolve(bytes,bytes)
 
+    // ENS coinTypes (ENSIP-9, ENSIP-11)
+    uint256 private constant ETH_COIN_TYPE = 60;
+    uint256 private constant ENSIP11_MSB = 1 << 31;
+
+    // Text record keys answered from the registered ChainData
+    bytes32 private constant CAIP2_KEY = keccak256("caip2");
+    bytes32 private constant COIN_TYPE_KEY = keccak256("coin-type");
+    bytes32 private constant CHAIN_NAME_KEY = keccak256("chain-name");
+    bytes32 private constant VERSION_KEY = keccak256("version");
+    bytes32 private constant ROLLUP_CONTRACT_KEY = keccak256("rollup-contract");
+    bytes32 private constant SETTLEMENT_CHAIN_ID_KEY = keccak256("settlement-chain-id");
+
     constructor(address _chainRegistry) Ownable(msg.sender) {
         CHAIN_REGISTRY = IChainRegistry(_chainRegistry);
     }
@@ -54,11 +99,13 @@ contract ChainResolver is Ownable, IERC165, IENSIP10 {
     /// @return True if the interface is supported, false otherwise
     function supportsInterface(bytes4 interfaceId) external pure override returns (bool) {
         return interfaceId == ERC165_INTERFACE_ID || 
-               interfaceId == RESOLVER_INTERFACE_ID ||
+               interfaceId == ADDR_INTERFACE_ID ||
+               interfaceId == ADDRESS_INTERFACE_ID ||
+               interfaceId == TEXT_INTERFACE_ID ||
                interfaceId == ENSIP10_INTERFACE_ID;
     }
 
-    /// @notice ENSIP-10 resolve function that parses calldata and handles text record resolution
+    /// @notice ENSIP-10 resolve function that parses calldata and handles text and addr record resolution
     /// @param name The ENS name being resolved
     /// @param data The calldata to parse
     /// @return The result of the resolution
@@ -74,8 +121,8 @@ contract ChainResolver is Ownable, IERC165, IENSIP10 {
             
             // Check if the key is 'chain-id'
             if (keccak256(abi.encodePacked(key)) == keccak256(abi.encodePacked("chain-id"))) {
-                // Return the chainId from the mapping
-                bytes32 chainId = nodeToChainId[node];
+                // Return the chain's latest chain ID
+                bytes32 chainId = _resolvedChainId(node);
                 if (chainId != bytes32(0)) {
                     
 
@@ -86,16 +133,156 @@ contract ChainResolver is Ownable, IERC165, IENSIP10 {
                 // Return empty bytes if no chainId found
                 return "";
             }
+
+            // Keys derived from the registered ChainData
+            (bool isRegistryKey, string memory value) = _registryText(node, keccak256(bytes(key)));
+            if (isRegistryKey) {
+                return abi.encode(value);
+            }
             
-            // For other text keys, return empty (not supported)
-            // TODO: Metadata contracts? for chain operators - we could fall through
-            return "";
+            // For other text keys, defer to the offchain gateway (if one is configured)
+            if (gatewayUrls.length == 0) {
+                return "";
+            }
+
+            bytes memory callData = abi.encodeWithSelector(IResolverService.resolve.selector, name, data);
+            revert OffchainLookup(address(this), gatewayUrls, callData, this.resolveCallback.selector, callData);
+        }
+        
+        if (selector == ADDR_SELECTOR) {
+            bytes32 node = abi.decode(data[4:], (bytes32));
+            (, ChainData memory chainData) = _chainData(node);
+            return abi.encode(chainData.rollupContract);
+        }
+
+        if (selector == ADDR_COINTYPE_SELECTOR) {
+            (bytes32 node, uint256 coinType) = abi.decode(data[4:], (bytes32, uint256));
+            (bool exists, ChainData memory chainData) = _chainData(node);
+
+            // The rollup contract lives on the settlement chain, so only answer for that chain's coinType
+            // (and for ETH, which must match addr(bytes32))
+            if (exists && (coinType == ETH_COIN_TYPE || coinType == _evmCoinType(chainData.settlementChainId))) {
+                return abi.encode(abi.encodePacked(chainData.rollupContract));
+            }
+            return abi.encode(bytes(""));
         }
         
         // Unsupported function selector
         revert UnsupportedFunction();
     }
 
+    /// @notice The chain ID an assigned node resolves to: the latest entry of the assigned chain
+    /// @dev    Labels assigned to a chain ID the registry does not know resolve to that chain ID as-is
+    function _resolvedChainId(bytes32 node) internal view returns (bytes32 chainId) {
+        chainId = nodeToChainId[node];
+        if (chainId != bytes32(0)) {
+            bytes32 current = CHAIN_REGISTRY.currentChainId(chainId);
+            if (current != bytes32(0)) {
+                chainId = current;
+            }
+        }
+    }
+
+    /// @notice Look up the registered ChainData for an assigned node, following supersessions
+    function _chainData(bytes32 node) internal view returns (bool exists, ChainData memory chainData) {
+        bytes32 chainId = _resolvedChainId(node);
+        if (chainId != bytes32(0)) {
+            (exists, chainData) = CHAIN_REGISTRY.chainDataFromId(chainId);
+        }
+    }
+
+    /// @notice Text records derived from the registered ChainData
+    /// @return isRegistryKey True if the key is answered from the registry
+    /// @return value The record, or empty if the node is not assigned to a registered chain
+    function _registryText(bytes32 node, bytes32 keyHash) internal view returns (bool isRegistryKey, string memory value) {
+        isRegistryKey = keyHash == CAIP2_KEY ||
+                        keyHash == COIN_TYPE_KEY ||
+                        keyHash == CHAIN_NAME_KEY ||
+                        keyHash == VERSION_KEY ||
+                        keyHash == ROLLUP_CONTRACT_KEY ||
+                        keyHash == SETTLEMENT_CHAIN_ID_KEY;
+
+        if (!isRegistryKey) {
+            return (false, "");
+        }
+
+        (bool exists, ChainData memory chainData) = _chainData(node);
+        if (!exists) {
+            return (true, "");
+        }
+
+        if (keyHash == CAIP2_KEY) {
+            value = string.concat(chainData.chainNamespace, ":", chainData.chainReference);
+        } else if (keyHash == COIN_TYPE_KEY) {
+            value = Strings.toString(chainData.coinType);
+        } else if (keyHash == CHAIN_NAME_KEY) {
+            value = chainData.chainName;
+        } else if (keyHash == VERSION_KEY) {
+            value = chainData.version;
+        } else if (keyHash == ROLLUP_CONTRACT_KEY) {
+            value = Strings.toChecksumHexString(chainData.rollupContract);
+        } else {
+            value = Strings.toString(chainData.settlementChainId);
+        }
+    }
+
+    /// @notice ENSIP-11 coinType for an EVM chain ID (mirrors ENSCoinType.evmCoinType)
+    function _evmCoinType(uint256 chainId) internal pure returns (uint256) {
+        if (chainId == 1) return ETH_COIN_TYPE;
+        return ENSIP11_MSB | chainId;
+    }
+
+    /// @notice EIP-3668 callback that verifies a signed gateway response
+    /// @param response abi.encode(bytes result, uint64 expires, bytes sig) from the gateway
+    /// @param extraData The callData that was sent to the gateway
+    /// @return The result of the resolution, as returned by resolve()
+    function resolveCallback(bytes calldata response, bytes calldata extraData) external view returns (bytes memory) {
+        (bytes memory result, uint64 expires, bytes memory sig) = abi.decode(response, (bytes, uint64, bytes));
+
+        if (expires < block.timestamp) {
+            revert GatewayResponseExpired();
+        }
+
+        address signer = ECDSA.recover(makeSignatureHash(address(this), expires, extraData, result), sig);
+        if (!signers[signer]) {
+            revert InvalidGatewaySignature();
+        }
+
+        return result;
+    }
+
+    /// @notice The hash a gateway signs for a response
+    /// @dev    Matches the ENS offchain-resolver SignatureVerifier scheme
+    function makeSignatureHash(address target, uint64 expires, bytes memory request, bytes memory result)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encodePacked(hex"1900", target, expires, keccak256(request), keccak256(result)));
+    }
+
+    /// @notice All CCIP-Read gateway URLs
+    function getGatewayUrls() external view returns (string[] memory) {
+        return gatewayUrls;
+    }
+
+    /// @notice Set the CCIP-Read gateway URLs (an empty list disables offchain records)
+    /// @dev Only callable by the owner
+    function setGatewayUrls(string[] calldata urls) external onlyOwner {
+        delete gatewayUrls;
+        for (uint256 i = 0; i < urls.length; i++) {
+            gatewayUrls.push(urls[i]);
+        }
+        emit GatewayUrlsChanged(urls);
+    }
+
+    /// @notice Allow or revoke a gateway signer
+    /// @dev Only callable by the owner
+    function setSigner(address signer, bool enabled) external onlyOwner {
+        signers[signer] = enabled;
+        emit SignerChanged(signer, enabled);
+    }
+
     /// @notice Assign a chain ID to an ENS node for a given label
     /// @param label The chain label (e.g., "base" for base.cid.eth)
     /// @param chainId The chain ID to assign to the node
@@ -125,10 +312,26 @@ contract ChainResolver is Ownable, IERC165, IENSIP10 {
         
         // Assign the chain ID to the node
         nodeToChainId[node] = chainId;
+        chainIdLabels[chainId].push(label);
         
         emit NodeAssigned(node, label, chainId);
     }
 
+    /// @notice The primary (first assigned) label for a chain ID
+    /// @param chainId The 7785 chain ID
+    /// @return The label (e.g., "base" for base.cid.eth), or empty if none is assigned
+    function chainIdToLabel(bytes32 chainId) external view returns (string memory) {
+        string[] storage labels = chainIdLabels[chainId];
+        return labels.length == 0 ? "" : labels[0];
+    }
+
+    /// @notice All labels assigned to a chain ID, in assignment order
+    /// @param chainId The 7785 chain ID
+    /// @return The labels
+    function chainIdToLabels(bytes32 chainId) external view returns (string[] memory) {
+        return chainIdLabels[chainId];
+    }
+
     /// @notice Compute ENS namehash for a given chain name
     /// @param chainName Human-readable chain name (e.g., "base")
     /// @return bytes32 ENS namehash for  ${chainName}.cid.eth
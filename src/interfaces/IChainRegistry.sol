@@ -11,17 +11,43 @@ struct ChainData {
     uint256 coinType;
 }
 
+/// @notice Where a chain is in its lifecycle
+/// @dev    Superseded chains have been replaced by a newer entry; deprecated chains have no replacement
+enum ChainStatus {
+    Unregistered,
+    Active,
+    Superseded,
+    Deprecated
+}
+
 interface IChainRegistry {
     
     /// @notice Emit whenever a new chain is registered
     event ChainRegistered(bytes32 indexed chainId, string chainName);
 
+    /// @notice Emit when a chain is replaced by a new entry (which is also announced with ChainRegistered)
+    event ChainSuperseded(bytes32 indexed oldChainId, bytes32 indexed newChainId);
+
+    /// @notice Emit when a chain is deprecated without a replacement
+    event ChainDeprecated(bytes32 indexed chainId);
+
     error ChainNameEmpty();
     error ChainAlreadyRegistered();
     error ChainNameAlreadyRegistered();
     error CAIP2HashAlreadyRegistered();
+    error ChainNotRegistered();
+    error ChainAlreadySuperseded();
+    error ChainIsDeprecated();
 
     function register(ChainData calldata _chainData) external returns (bytes32);
     /// @notice DEMO-ONLY: Unrestricted register for the demo UI. Do NOT use in production.
     function demoRegister(ChainData calldata _chainData) external returns (bytes32);
+
+    function supersede(bytes32 oldChainId, ChainData calldata _chainData) external returns (bytes32);
+    function deprecate(bytes32 chainId) external;
+
+    function chainDataFromId(bytes32 chainId) external view returns (bool exists, ChainData memory);
+    function chainStatus(bytes32 chainId) external view returns (ChainStatus);
+    function currentChainId(bytes32 chainId) external view returns (bytes32);
+    function chainHistory(bytes32 chainId) external view returns (bytes32[] memory);
 }
@@ -0,0 +1,102 @@
+/**
+ * @description Checks the TypeScript CAIP-2 toolkit (sdk/CAIP2.ts): grammar validation, formatting,
+ *              CAIP-10 handling and hash parity with the deployed CAIP2 library.
+ * @usage       bun test tests/CAIP2.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Contract, id, toUtf8Bytes, keccak256 } from "ethers";
+import {
+  computeCaip2Hash,
+  formatCaip2,
+  isValidCaip2,
+  parseCaip10,
+  parseCaip2,
+  toCaip2,
+} from "../sdk/CAIP2";
+import { launchFoundry } from "./fixtures";
+
+describe("CAIP-2 grammar", () => {
+  test("accepts valid identifiers", () => {
+    expect(isValidCaip2("eip155", "8453")).toBe(true);
+    expect(isValidCaip2("bip122", "000000000019d6689c085ae165831e93")).toBe(true);
+    expect(isValidCaip2("cosmos", "cosmoshub-4")).toBe(true);
+  });
+
+  test("rejects invalid identifiers", () => {
+    expect(isValidCaip2("ei", "1")).toBe(false); // namespace shorter than 3 chars
+    expect(isValidCaip2("eip155abc", "1")).toBe(false); // namespace longer than 8 chars
+    expect(isValidCaip2("EIP155", "1")).toBe(false); // uppercase namespace
+    expect(isValidCaip2("eip155", "")).toBe(false); // empty reference
+    expect(isValidCaip2("eip155", "a".repeat(33))).toBe(false); // reference longer than 32 chars
+    expect(isValidCaip2("eip155", "84.53")).toBe(false); // '.' in reference
+  });
+
+  test("parses and formats", () => {
+    const base = parseCaip2("eip155:8453");
+    expect(base).toEqual({ namespace: "eip155", reference: "8453" });
+    expect(formatCaip2(base)).toBe("eip155:8453");
+    expect(() => parseCaip2("eip155")).toThrow();
+    expect(() => parseCaip2("eip155:1:2")).toThrow();
+    expect(() => formatCaip2({ namespace: "x", reference: "1" })).toThrow();
+  });
+
+  test("accepts CAIP-10 account IDs", () => {
+    const account = parseCaip10("eip155:1:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb");
+    expect(account.address).toBe("0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb");
+    expect(formatCaip2(toCaip2("eip155:1:0xab16a96D359eC26a11e2C2b3d8f8B8942d5Bfcdb"))).toBe("eip155:1");
+    expect(formatCaip2(toCaip2("eip155:10"))).toBe("eip155:10");
+    expect(() => parseCaip10("eip155:1:0x#")).toThrow();
+  });
+
+  // The registry hash is NOT the keccak of the joined string
+  test("computeCaip2Hash differs from keccak256(namespace:reference)", () => {
+    expect(computeCaip2Hash("eip155", "8453")).not.toBe(keccak256(toUtf8Bytes("eip155:8453")));
+  });
+});
+
+describe("CAIP2 library parity", () => {
+  let foundry, lib: Contract;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+
+    const CAIP2 = await foundry.deploy({
+      file: "CAIP2",
+      args: [],
+    });
+
+    lib = new Contract(
+      CAIP2.target,
+      ["function computeCaip2Hash(string, string) view returns (bytes32)"],
+      foundry.provider
+    );
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  const pairs: [string, string][] = [
+    ["eip155", "1"],
+    ["eip155", "8453"],
+    ["bip122", "000000000019d6689c085ae165831e93"],
+    ["solana", "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp"],
+    ["cosmos", "cosmoshub-4"],
+    ["", ""],
+    ["eip155", ""],
+    ["", "8453"],
+    ["eip155:8453", ""],
+    ["eip155", "x".repeat(100)],
+    ["ĉeńo", "链"],
+  ];
+
+  for (let i = 0; i < 16; i++) {
+    const seed = id(`caip2-${i}`);
+    pairs.push([seed.slice(2, 2 + (i % 8) + 3), seed.slice(10, 10 + i + 1)]);
+  }
+
+  test(`computeCaip2Hash matches the library for ${pairs.length} pairs`, async () => {
+    for (const [namespace, reference] of pairs) {
+      expect(computeCaip2Hash(namespace, reference)).toBe(await lib.computeCaip2Hash(namespace, reference));
+    }
+  });
+});
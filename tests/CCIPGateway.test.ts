@@ -0,0 +1,123 @@
+/**
+ * @description End-to-end CCIP-Read (EIP-3668) test: non chain-id text records for base.cid.eth are served by the
+ *              signed gateway (server/gateway.ts) and resolved through ethers' built-in CCIP-Read support.
+ * @usage       bun test tests/CCIPGateway.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Wallet, dnsEncode } from "ethers";
+
+import { GatewayOptions, createGatewayServer, dnsDecode } from "../server/gateway";
+import { deployENS, setResolver } from "./ens";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+import { expectRevert } from "./helpers";
+
+const NAME = "base.cid.eth";
+
+const STORE = {
+  [NAME]: {
+    url: "https://base.org",
+    rpc: "https://mainnet.base.org",
+    "native-currency": "ETH",
+  },
+};
+
+describe("CCIP-Read gateway", () => {
+  let foundry, provider, ens, chainRegistry, chainResolver;
+  let chainId: string;
+  const servers: Server[] = [];
+
+  const gatewaySigner = Wallet.createRandom();
+
+  // Starts a gateway and returns its EIP-3668 URL template
+  async function startGateway(options: Partial<GatewayOptions> = {}): Promise<string> {
+    const server = createGatewayServer({ signingKey: gatewaySigner.signingKey, store: STORE, ...options });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    servers.push(server);
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/{sender}/{data}.json`;
+  }
+
+  async function useGateway(url: string) {
+    await foundry.confirm(chainResolver.setGatewayUrls([url]));
+  }
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ ens, provider } = await deployENS(foundry));
+
+    ({ chainRegistry } = await deployChainRegistry(foundry));
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+
+    const receipt = await foundry.confirm(chainRegistry.register(BASE_CHAIN_DATA));
+    chainId = receipt.logs[0].args.chainId;
+    await foundry.confirm(chainResolver.assign("base", chainId));
+    await setResolver(foundry, ens, "cid.eth", chainResolver.target);
+
+    await foundry.confirm(chainResolver.setSigner(gatewaySigner.address, true));
+    await useGateway(await startGateway());
+  });
+
+  afterAll(async () => {
+    for (const server of servers) server.close();
+    await foundry?.shutdown();
+  });
+
+  test("serves offchain text records through the gateway", async () => {
+    const resolver = await provider.getResolver(NAME);
+    expect(await resolver.getText("url")).toBe("https://base.org");
+    expect(await resolver.getText("rpc")).toBe("https://mainnet.base.org");
+  });
+
+  test("chain-id is still answered onchain", async () => {
+    // A gateway that is down must not affect chain-id
+    await useGateway("http://127.0.0.1:1/{sender}/{data}.json");
+    try {
+      const resolver = await provider.getResolver(NAME);
+      expect(await resolver.getText("chain-id")).toBe(chainId);
+    } finally {
+      await useGateway(await startGateway());
+    }
+  });
+
+  test("unknown keys resolve to empty", async () => {
+    const resolver = await provider.getResolver(NAME);
+    expect(await resolver.getText("avatar")).toBe("");
+  });
+
+  test("rejects responses from a signer the resolver does not allow", async () => {
+    await useGateway(await startGateway({ signingKey: Wallet.createRandom().signingKey }));
+    try {
+      const resolver = await provider.getResolver(NAME);
+      // ethers treats the failed callback as a missing record
+      expect(await resolver.getText("url")).toBeNull();
+    } finally {
+      await useGateway(await startGateway());
+    }
+  });
+
+  test("rejects expired responses", async () => {
+    await useGateway(await startGateway({ ttlSeconds: -60 }));
+    try {
+      const resolver = await provider.getResolver(NAME);
+      // ethers treats the failed callback as a missing record
+      expect(await resolver.getText("url")).toBeNull();
+    } finally {
+      await useGateway(await startGateway());
+    }
+  });
+
+  test("gateway settings are owner only", async () => {
+    const from = Wallet.createRandom().address;
+    await expectRevert(
+      chainResolver.connect(foundry.provider).setSigner.staticCall(from, true, { from }),
+      chainResolver,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+
+  test("dnsDecode reverses dnsEncode", () => {
+    expect(dnsDecode(dnsEncode(NAME))).toBe(NAME);
+  });
+});
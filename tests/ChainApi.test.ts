@@ -0,0 +1,121 @@
+/**
+ * @description Tests the read-only HTTP API (server/api.ts) against a local deployment.
+ * @usage       bun test tests/ChainApi.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createChainApiServer } from "../server/api";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+describe("Chain API", () => {
+  let foundry, chainRegistry, chainResolver;
+  let server: Server;
+  let baseUrl: string;
+  let chainId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ chainRegistry } = await deployChainRegistry(foundry));
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+
+    const receipt = await foundry.confirm(chainRegistry.register(BASE_CHAIN_DATA));
+    chainId = receipt.logs[0].args.chainId;
+    await foundry.confirm(chainResolver.assign("base", chainId));
+
+    server = createChainApiServer({
+      runner: foundry.provider,
+      registry: chainRegistry.target,
+      resolver: chainResolver.target,
+      cacheTtlMs: 60_000,
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server?.close();
+    await foundry?.shutdown();
+  });
+
+  async function get(path: string) {
+    const res = await fetch(baseUrl + path);
+    return { status: res.status, cache: res.headers.get("x-cache"), body: await res.json() };
+  }
+
+  const expected = () => ({
+    chainId,
+    chainName: "base",
+    settlementChainId: "8453",
+    version: "1",
+    rollupContract: BASE_CHAIN_DATA.rollupContract,
+    chainNamespace: "eip155",
+    chainReference: "8453",
+    caip2: "eip155:8453",
+    coinType: "2147492101",
+  });
+
+  test("GET /chains/:chainId", async () => {
+    const { status, body } = await get(`/chains/${chainId}`);
+    expect(status).toBe(200);
+    expect(body).toEqual(expected());
+  });
+
+  test("GET /caip2/:namespace/:reference", async () => {
+    const { status, body } = await get("/caip2/eip155/8453");
+    expect(status).toBe(200);
+    expect(body).toEqual(expected());
+  });
+
+  test("GET /cointype/:coinType", async () => {
+    const { status, body } = await get("/cointype/2147492101");
+    expect(status).toBe(200);
+    expect(body).toEqual(expected());
+  });
+
+  test("GET /labels/:label", async () => {
+    const { status, body } = await get("/labels/base");
+    expect(status).toBe(200);
+    expect(body).toEqual({ ...expected(), label: "base", ensName: "base.cid.eth" });
+  });
+
+  test("not found", async () => {
+    expect((await get("/caip2/eip155/42161")).status).toBe(404);
+    expect((await get("/cointype/8453")).status).toBe(404);
+    expect((await get("/labels/unknown")).status).toBe(404);
+    expect((await get("/chains/" + "0x" + "00".repeat(32))).status).toBe(404);
+    expect((await get("/nope")).status).toBe(404);
+  });
+
+  test("malformed input", async () => {
+    expect((await get("/chains/base")).status).toBe(400);
+    expect((await get("/cointype/0x2105")).status).toBe(400);
+  });
+
+  test("malformed percent-encoding is a client error", async () => {
+    const { status, body } = await get("/labels/%E0");
+    expect(status).toBe(400);
+    expect(body.error).toContain("Malformed path segment");
+  });
+
+  test("coinTypes that are not uint256 decimals are client errors", async () => {
+    for (const coinType of ["abc", "-1", "1e3", (1n << 256n).toString()]) {
+      expect((await get(`/cointype/${coinType}`)).status).toBe(400);
+    }
+    // The largest uint256 is valid, just unmapped
+    expect((await get(`/cointype/${(1n << 256n) - 1n}`)).status).toBe(404);
+  });
+
+  test("successful lookups are cached", async () => {
+    await foundry.confirm(
+      chainRegistry.register({ ...BASE_CHAIN_DATA, chainName: "optimism", chainReference: "10" })
+    );
+    const first = await get("/caip2/eip155/10");
+    const second = await get("/caip2/eip155/10");
+    expect([first.cache, second.cache]).toEqual(["MISS", "HIT"]);
+    expect(second.body).toEqual(first.body);
+    // Errors are never cached
+    expect((await get("/labels/unknown")).cache).toBeNull();
+  });
+});
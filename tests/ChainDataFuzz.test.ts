@@ -0,0 +1,249 @@
+/**
+ * @description Property-based tests (tests/property.ts) for the derivations the registry's uniqueness guarantees rest
+ *              on: the 7785 chain ID, the CAIP-2 hash and the ENS coinType. Random ChainData (Unicode names, long
+ *              and non-decimal references, non-eip155 namespaces, zero addresses, references at the edge of
+ *              Strings.parseUint) is checked against the TypeScript implementations, and random registration
+ *              sequences are checked against a model of where ChainRegistry._register reverts.
+ *              Failures shrink to a minimal ChainData; replay with FUZZ_SEED=..., run longer with FUZZ_RUNS=...
+ * @usage       bun test tests/ChainDataFuzz.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Contract, Interface, MaxUint256, ZeroAddress, ZeroHash } from "ethers";
+import { CHAIN_REGISTRY_ABI } from "../sdk/abis";
+import { computeCaip2Hash } from "../sdk/CAIP2";
+import { encodeChainData } from "../sdk/ChainRegistryClient";
+import { chainIdFromCoinType, evmCoinType, parseUint, registryCoinType } from "../sdk/ENSCoinType";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import { revertName } from "../sdk/errors";
+import { ChainData } from "../sdk/types";
+import { deployLibraries, launchFoundry, onchainChainId } from "./fixtures";
+import {
+  Arbitrary,
+  address,
+  arrayOf,
+  checkProperty,
+  constant,
+  elementOf,
+  oneOf,
+  record,
+  stringOf,
+  uint,
+} from "./property";
+
+// Strings.parseUint reverts with StringsInvalidChar, which the registry ABI does not declare
+const REGISTRY_INTERFACE = new Interface([...CHAIN_REGISTRY_ABI, "error StringsInvalidChar()"]);
+
+const ENSIP11_EDGES = [(1n << 31n) - 1n, 1n << 31n, (1n << 31n) | 8453n, 60n, 8453n];
+
+// Code points for names and versions: ASCII, combining marks, CJK, emoji (incl. ZWJ sequences), RTL,
+// zero-width and control characters. The first entry is what shrinking simplifies towards.
+const UNICODE = ["a", "b", "Z", "0", " ", "-", ".", "é", "é", "ĉ", "ß", "链", "🦄", "👩‍💻", "ع", "‍", "﻿", "\u0000"];
+
+const DIGITS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+// Decimal strings around the uint256 limit of Strings.parseUint
+const MAX = MaxUint256.toString();
+const EDGE_REFERENCES = [
+  "0",
+  "8453",
+  MAX,
+  (MaxUint256 - 1n).toString(),
+  (MaxUint256 + 1n).toString(),
+  "9".repeat(78),
+  "0".repeat(100) + MAX,
+  "0".repeat(100) + "1",
+];
+
+// Decimal, almost decimal (fullwidth and Arabic-Indic digits, signs, hex) and CAIP-2 style references
+const referenceArb: Arbitrary<string> = oneOf(
+  stringOf(DIGITS, 90),
+  elementOf(EDGE_REFERENCES),
+  stringOf(["1", "0", "x", "-", "+", " ", "e", "１", "٣"], 8),
+  stringOf(["a", "Z", "9", "-", "_", ...UNICODE.slice(7)], 64)
+);
+
+const namespaceArb: Arbitrary<string> = oneOf(
+  elementOf(["eip155", "eip155", "eip155", "bip122", "solana", "cosmos", ""]),
+  stringOf(["a", "z", "0", "-", "E", "é"], 12)
+);
+
+const chainDataArb: Arbitrary<ChainData> = record({
+  chainName: oneOf(stringOf(UNICODE, 80), elementOf(["base", ""])),
+  settlementChainId: uint(256, ENSIP11_EDGES),
+  version: stringOf(["1", "v", ".", "0", "-", "é"], 40),
+  rollupContract: oneOf(constant(ZeroAddress), address()),
+  chainNamespace: namespaceArb,
+  chainReference: referenceArb,
+  coinType: uint(256, ENSIP11_EDGES),
+});
+
+// Registration sequences draw from small pools so names and CAIP-2 pairs collide often
+const registrationArb: Arbitrary<ChainData[]> = arrayOf(
+  record({
+    chainName: elementOf(["a", "b", "", "链", "🦄"]),
+    settlementChainId: uint(64),
+    version: elementOf(["1", "2"]),
+    rollupContract: oneOf(constant(ZeroAddress), address()),
+    chainNamespace: elementOf(["eip155", "solana"]),
+    chainReference: oneOf(elementOf(["1", "10", "8453"]), referenceArb),
+    coinType: uint(256, ENSIP11_EDGES),
+  }),
+  1,
+  6
+);
+
+type Outcome =
+  | "ok"
+  | "ChainNameEmpty"
+  | "ChainNameAlreadyRegistered"
+  | "StringsInvalidChar"
+  | "Panic"
+  | "CAIP2HashAlreadyRegistered";
+
+// What the registry has seen so far in a sequence
+type RegistryModel = {
+  names: Set<string>;
+  caip2Hashes: Set<string>;
+  coinTypes: Map<bigint, string>;
+};
+
+// How Strings.parseUint fails on a reference, if it does
+function parseFailure(reference: string): Outcome | undefined {
+  if (!/^[0-9]*$/.test(reference)) return "StringsInvalidChar";
+  // parseUint's checked multiplication overflows
+  if (BigInt(reference || "0") > MaxUint256) return "Panic";
+}
+
+// Where ChainRegistry._register reverts, in its order of checks
+// ChainAlreadyRegistered is unreachable: the chain ID covers chainName, which is already unique
+function expectedOutcome(model: RegistryModel, data: ChainData): Outcome {
+  if (data.chainName === "") return "ChainNameEmpty";
+  if (model.names.has(data.chainName)) return "ChainNameAlreadyRegistered";
+  if (data.chainNamespace === "eip155") {
+    const failure = parseFailure(data.chainReference);
+    if (failure) return failure;
+  }
+  if (model.caip2Hashes.has(computeCaip2Hash(data.chainNamespace, data.chainReference))) {
+    return "CAIP2HashAlreadyRegistered";
+  }
+  return "ok";
+}
+
+describe("ChainData fuzzing", () => {
+  let foundry, libs;
+  let caip2: Contract, ensCoinType: Contract;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    libs = await deployLibraries(foundry);
+    caip2 = new Contract(
+      libs.CAIP2.target,
+      ["function computeCaip2Hash(string namespace, string chainReference) view returns (bytes32)"],
+      foundry.provider
+    );
+    ensCoinType = new Contract(
+      libs.ENSCoinType.target,
+      ["function evmCoinType(uint256) view returns (uint256)"],
+      foundry.provider
+    );
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("computeChainId matches the ERC7785ChainId library", async () => {
+    await checkProperty(chainDataArb, async (data) => {
+      expect(computeChainId(data)).toBe(await onchainChainId(foundry, libs.ERC7785ChainId, data));
+    });
+  });
+
+  test("computeCaip2Hash matches the CAIP2 library", async () => {
+    await checkProperty(record({ namespace: namespaceArb, reference: referenceArb }), async ({ namespace, reference }) => {
+      expect(computeCaip2Hash(namespace, reference)).toBe(await caip2.computeCaip2Hash(namespace, reference));
+    });
+  });
+
+  test("evmCoinType matches the ENSCoinType library", async () => {
+    await checkProperty(uint(256, ENSIP11_EDGES), async (chainId) => {
+      expect(evmCoinType(chainId)).toBe(await ensCoinType.evmCoinType(chainId));
+    });
+  });
+
+  test("chainIdFromCoinType inverts evmCoinType below 2^31", async () => {
+    await checkProperty(
+      uint(31),
+      (chainId) => {
+        expect(chainIdFromCoinType(evmCoinType(chainId))).toBe(chainId);
+      },
+      { runs: 1000 }
+    );
+  });
+
+  // registryCoinType (and so the registration planner) must reject exactly the references the registry does
+  test("parseUint rejects the references Strings.parseUint reverts on", async () => {
+    await checkProperty(referenceArb, (reference) => {
+      if (parseFailure(reference)) expect(() => parseUint(reference)).toThrow();
+      else expect(parseUint(reference)).toBe(BigInt(reference || "0"));
+    });
+  });
+
+  test("ChainRegistry reverts exactly where the model says", async () => {
+    await checkProperty(
+      registrationArb,
+      async (sequence) => {
+        const registry = await foundry.deploy({ file: "ChainRegistry", args: [], libs });
+        const model: RegistryModel = { names: new Set(), caip2Hashes: new Set(), coinTypes: new Map() };
+
+        for (const [step, data] of sequence.entries()) {
+          const expected = expectedOutcome(model, data);
+          const actual = await registry.demoRegister
+            .staticCall(encodeChainData(data))
+            .then(() => "ok")
+            .catch((err) => revertName(REGISTRY_INTERFACE, err) ?? String(err));
+          expect(`step ${step}: ${actual}`).toBe(`step ${step}: ${expected}`);
+
+          if (expected !== "ok") continue;
+
+          await foundry.confirm(registry.demoRegister(encodeChainData(data)));
+          const chainId = computeChainId(data);
+          const coinType = registryCoinType(data);
+          const caip2Hash = computeCaip2Hash(data.chainNamespace, data.chainReference);
+          model.names.add(data.chainName);
+          model.caip2Hashes.add(caip2Hash);
+          if (coinType !== 0n && !model.coinTypes.has(coinType)) model.coinTypes.set(coinType, chainId);
+
+          // Stored state agrees with the TypeScript derivations
+          const [exists, stored] = await registry.chainDataFromId(chainId);
+          expect(exists).toBe(data.rollupContract !== ZeroAddress);
+          expect(stored.coinType).toBe(coinType);
+          expect(await registry.caip2HashToChainId(caip2Hash)).toBe(chainId);
+          if (coinType !== 0n) {
+            expect(await registry.ensCoinTypeToChainId(coinType)).toBe(model.coinTypes.get(coinType));
+          } else {
+            expect(await registry.ensCoinTypeToChainId(0n)).toBe(ZeroHash);
+          }
+        }
+      },
+      { runs: 25, maxShrinks: 200 }
+    );
+  });
+});
+
+describe("property runner", () => {
+  test("shrinks a failing case to a minimal reproducer", async () => {
+    const failing = checkProperty(
+      record({ name: stringOf(["a", "b", "链"], 40), value: uint(256) }),
+      ({ name, value }) => {
+        if (Array.from(name).length >= 3 && value >= 1000n) throw new Error("too big");
+      },
+      { seed: "shrink" }
+    );
+    await expect(failing).rejects.toThrow(/Minimal counterexample:\n\{\n  "name": "aaa",\n  "value": "1000"\n\}/);
+  });
+
+  test("passing properties run every case", async () => {
+    let runs = 0;
+    await checkProperty(uint(8), () => void runs++, { runs: 50 });
+    expect(runs).toBe(Number(process.env.FUZZ_RUNS ?? 50));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @description Tests the event indexer (sdk/ChainIndexer.ts) against a local deployment: full ChainData
+ *              reconstruction, label recovery from calldata and incremental snapshot updates.
+ * @usage       bun test tests/ChainIndexer.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ChainIndexer, recoverLabel } from "../sdk/ChainIndexer";
+import { computeNode } from "../sdk/ChainResolver";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+describe("ChainIndexer", () => {
+  let foundry, chainRegistry, chainResolver;
+  let dir: string;
+  let snapshotPath: string;
+  let baseId: string;
+  let opId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ chainRegistry } = await deployChainRegistry(foundry));
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+
+    dir = await mkdtemp(path.join(tmpdir(), "chain-indexer-"));
+    snapshotPath = path.join(dir, "snapshot.json");
+
+    const receipt = await foundry.confirm(chainRegistry.register(BASE_CHAIN_DATA));
+    baseId = receipt.logs[0].args.chainId;
+    await foundry.confirm(chainResolver.assign("base", baseId));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+    await foundry?.shutdown();
+  });
+
+  function indexer() {
+    return new ChainIndexer({
+      provider: foundry.provider,
+      registry: chainRegistry.target,
+      resolver: chainResolver.target,
+      snapshotPath,
+      batchSize: 3,
+    });
+  }
+
+  test("rebuilds chains and recovers labels", async () => {
+    const snapshot = await indexer().sync();
+
+    expect(snapshot.chains[baseId]).toMatchObject({
+      chainId: baseId,
+      exists: true,
+      chainName: "base",
+      settlementChainId: "8453",
+      rollupContract: BASE_CHAIN_DATA.rollupContract,
+      coinType: "2147492101",
+    });
+
+    expect(snapshot.labels[computeNode("base")]).toMatchObject({
+      label: "base",
+      chainId: baseId,
+    });
+  });
+
+  test("updates the snapshot incrementally", async () => {
+    const { lastBlock } = await indexer().load();
+
+    const receipt = await foundry.confirm(
+      chainRegistry.demoRegister({ ...BASE_CHAIN_DATA, chainName: "optimism", chainReference: "10" })
+    );
+    opId = receipt.logs[0].args.chainId;
+    await foundry.confirm(chainResolver.demoAssign("op", opId));
+
+    const snapshot = await indexer().sync();
+
+    expect(snapshot.lastBlock).toBeGreaterThan(lastBlock);
+    expect(Object.keys(snapshot.chains).sort()).toEqual([baseId, opId].sort());
+    expect(snapshot.labels[computeNode("op")].label).toBe("op");
+    // Earlier entries are kept, not re-scanned
+    expect(snapshot.labels[computeNode("base")].label).toBe("base");
+  });
+
+  test("a re-sync with no new blocks changes nothing", async () => {
+    const before = await indexer().load();
+    const after = await indexer().sync();
+    expect(after).toEqual(before);
+  });
+
+  test("recovers labels nested inside other calldata", () => {
+    const assign = chainResolver.interface.encodeFunctionData("assign", ["nested", baseId]);
+    // e.g. wrapped in a multisig call
+    const wrapped = "0x6a761202" + "00".repeat(64) + assign.slice(2) + "00".repeat(16);
+    expect(recoverLabel(wrapped, computeNode("nested"))).toBe("nested");
+    expect(recoverLabel(wrapped, computeNode("other"))).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @description Tests the ChainRegistry lifecycle: supersede (lookups move to the replacement), deprecate, status and
+ *              history views, the ChainRegistryClient methods that follow supersessions, and how ChainIndexer and
+ *              the export treat superseded chains.
+ * @usage       bun test tests/ChainLifecycle.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { ChainIndexer } from "../sdk/ChainIndexer";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import {
+  CAIP2HashAlreadyRegisteredError,
+  ChainAlreadyRegisteredError,
+  ChainAlreadySupersededError,
+  ChainIsDeprecatedError,
+  ChainNameAlreadyRegisteredError,
+  ChainNotRegisteredError,
+} from "../sdk/errors";
+import { toCaip2Listing, toChainlist } from "../sdk/export";
+import { BASE_CHAIN_DATA, deployChainRegistry, launchFoundry } from "./fixtures";
+
+// Base after a portal migration, then after a version bump
+const BASE_V2 = { ...BASE_CHAIN_DATA, rollupContract: "0x56315b90c40730925ec5485cf004d835058518A0" };
+const BASE_V3 = { ...BASE_V2, version: "2" };
+const OPTIMISM = { ...BASE_CHAIN_DATA, chainName: "optimism", chainReference: "10" };
+const ZORA = { ...BASE_CHAIN_DATA, chainName: "zora", chainReference: "7777777" };
+// Not yet deployed: no rollup contract
+const PENDING = { ...BASE_CHAIN_DATA, chainName: "pending", chainReference: "999", rollupContract: ZeroAddress };
+
+const BASE_COIN_TYPE = 2147492101n;
+
+describe("ChainRegistry lifecycle", () => {
+  let foundry, client: ChainRegistryClient;
+  let v1: string, v2: string, v3: string, opId: string, zoraId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    client = new ChainRegistryClient(chainRegistry.target, foundry.wallets.admin);
+
+    ({ chainId: v1 } = await client.register(BASE_CHAIN_DATA));
+    ({ chainId: opId } = await client.register(OPTIMISM));
+    ({ chainId: zoraId } = await client.register(ZORA));
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("new chains are active and are their own history", async () => {
+    expect(await client.chainStatus(v1)).toBe("active");
+    expect(await client.currentChainId(v1)).toBe(v1);
+    expect((await client.chainHistory(v1)).map((x) => x.chainId)).toEqual([v1]);
+
+    expect(await client.chainStatus(ZeroHash)).toBe("unregistered");
+    expect(await client.currentChainId(ZeroHash)).toBeNull();
+    expect(await client.chainHistory(ZeroHash)).toEqual([]);
+  });
+
+  test("supersede registers the replacement and moves the CAIP-2 and coinType lookups", async () => {
+    // Same name and CAIP-2 pair as the chain it replaces
+    const { chainId, receipt } = await client.supersede(v1, BASE_V2);
+    v2 = chainId;
+    expect(v2).toBe(computeChainId(BASE_V2));
+
+    const events = receipt.logs.map((log) => client.interface.parseLog(log)).filter((x) => x !== null);
+    expect(events.map((x) => x.name)).toEqual(["ChainRegistered", "ChainSuperseded"]);
+    expect([...events[1].args]).toEqual([v1, v2]);
+
+    expect(await client.chainStatus(v1)).toBe("superseded");
+    expect(await client.chainStatus(v2)).toBe("active");
+    expect((await client.chainDataFromCaip2("eip155", "8453"))?.chainId).toBe(v2);
+    expect((await client.chainDataFromEnsCoinType(BASE_COIN_TYPE))?.chainId).toBe(v2);
+
+    // The old entry is kept as history
+    expect(await client.chainDataFromId(v1)).toMatchObject({
+      chainId: v1,
+      rollupContract: BASE_CHAIN_DATA.rollupContract,
+    });
+  });
+
+  test("client lookups follow supersession chains to the current entry", async () => {
+    ({ chainId: v3 } = await client.supersede(v2, BASE_V3));
+
+    for (const chainId of [v1, v2, v3]) {
+      expect(await client.currentChainId(chainId)).toBe(v3);
+      expect(await client.currentChainDataFromId(chainId)).toMatchObject({ chainId: v3, version: "2" });
+    }
+
+    const history = await client.chainHistory(v2);
+    expect(history.map((x) => [x.chainId, x.status])).toEqual([
+      [v1, "superseded"],
+      [v2, "superseded"],
+      [v3, "active"],
+    ]);
+    expect(history[0]).toMatchObject({ exists: true, rollupContract: BASE_CHAIN_DATA.rollupContract });
+  });
+
+  test("supersede only replaces current, registered chains with new, unique data", async () => {
+    await expect(client.supersede(v1, { ...BASE_V3, version: "3" })).rejects.toBeInstanceOf(
+      ChainAlreadySupersededError
+    );
+    await expect(client.supersede(ZeroHash, BASE_V3)).rejects.toBeInstanceOf(ChainNotRegisteredError);
+    // coinType is not part of the 7785 chain ID, so this is the same entry
+    await expect(client.supersede(v3, { ...BASE_V3, coinType: 1 })).rejects.toBeInstanceOf(ChainAlreadyRegisteredError);
+    // Only the replaced chain's name and CAIP-2 pair may be reused
+    await expect(client.supersede(v3, { ...BASE_V3, chainName: "optimism" })).rejects.toBeInstanceOf(
+      ChainNameAlreadyRegisteredError
+    );
+    await expect(client.supersede(v3, { ...BASE_V3, version: "3", chainReference: "10" })).rejects.toBeInstanceOf(
+      CAIP2HashAlreadyRegisteredError
+    );
+  });
+
+  test("deprecate retires a chain and keeps its lookups", async () => {
+    const receipt = await client.deprecate(opId);
+    expect(receipt.logs.map((log) => client.interface.parseLog(log)?.name)).toEqual(["ChainDeprecated"]);
+
+    expect(await client.chainStatus(opId)).toBe("deprecated");
+    expect(await client.currentChainId(opId)).toBe(opId);
+    expect((await client.chainDataFromCaip2("eip155", "10"))?.chainId).toBe(opId);
+
+    await expect(client.deprecate(opId)).rejects.toBeInstanceOf(ChainIsDeprecatedError);
+    await expect(client.supersede(opId, { ...OPTIMISM, version: "2" })).rejects.toBeInstanceOf(ChainIsDeprecatedError);
+    await expect(client.deprecate(v1)).rejects.toBeInstanceOf(ChainAlreadySupersededError);
+  });
+
+  test("the indexer records the lifecycle and the export lists only current entries", async () => {
+    const snapshot = await new ChainIndexer({ provider: foundry.provider, registry: client.target }).sync();
+
+    expect(snapshot.chains[v1]).toMatchObject({ supersededBy: v2, deprecated: false });
+    expect(snapshot.chains[v2]).toMatchObject({ supersededBy: v3, deprecated: false });
+    expect(snapshot.chains[v3]).toMatchObject({ supersededBy: null, deprecated: false });
+    expect(snapshot.chains[opId]).toMatchObject({ supersededBy: null, deprecated: true });
+
+    expect(toChainlist(snapshot).map((x) => x.erc7785ChainId)).toEqual([opId, v3, zoraId]);
+    expect(toCaip2Listing(snapshot).eip155.map((x) => x.chainId)).toEqual([opId, v3, zoraId]);
+  });
+
+  test("a replacement cannot re-register an earlier entry without a rollup contract", async () => {
+    const { chainId: first } = await client.register(PENDING);
+    // Registered (and active) without a rollup contract, even though chainDataFromId reports it as not existing
+    expect(await client.chainStatus(first)).toBe("active");
+    expect(await client.chainHistory(first)).toMatchObject([{ chainId: first, exists: false, status: "active" }]);
+
+    const { chainId: second } = await client.supersede(first, { ...PENDING, rollupContract: BASE_V2.rollupContract });
+
+    // Would point first and second at each other, so currentChainId and chainHistory would never terminate
+    await expect(client.supersede(second, PENDING)).rejects.toBeInstanceOf(ChainAlreadyRegisteredError);
+
+    expect(await client.currentChainId(first)).toBe(second);
+    expect((await client.chainHistory(second)).map((x) => x.chainId)).toEqual([first, second]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @description Tests the typed ChainRegistry client (sdk/ChainRegistryClient.ts):
+ *              decoded lookups, null for unknown chains and typed custom errors.
+ * @usage       bun test tests/ChainRegistryClient.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ZeroHash } from "ethers";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import {
+  CAIP2HashAlreadyRegisteredError,
+  ChainNameAlreadyRegisteredError,
+  ChainNameEmptyError,
+  revertName,
+} from "../sdk/errors";
+import { BASE_CHAIN_DATA, deployChainRegistry, launchFoundry } from "./fixtures";
+
+const chainData = BASE_CHAIN_DATA;
+
+describe("ChainRegistryClient", () => {
+  let foundry, client: ChainRegistryClient;
+  let chainId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    client = new ChainRegistryClient(chainRegistry.target, foundry.wallets.admin);
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  // Unknown chains are null rather than an empty tuple
+  test("unknown chains are null", async () => {
+    expect(await client.chainDataFromId(ZeroHash)).toBeNull();
+    expect(await client.chainDataFromCaip2("eip155", "8453")).toBeNull();
+    expect(await client.chainDataFromEnsCoinType(2147492101n)).toBeNull();
+  });
+
+  test("register returns the 7785 chain ID", async () => {
+    ({ chainId } = await client.register(chainData));
+    expect(chainId).toBe(computeChainId(chainData));
+  });
+
+  test("every lookup returns the decoded chain", async () => {
+    const found = [
+      await client.chainDataFromId(chainId),
+      await client.chainDataFromCaip2("eip155", "8453"),
+      await client.chainDataFromEnsCoinType(2147492101n),
+    ];
+    for (const data of found) {
+      expect(data).toEqual({
+        chainId,
+        ...chainData,
+        settlementChainId: 8453n,
+        // Normalized to ENSIP-11
+        coinType: 2147492101n,
+      });
+    }
+  });
+
+  test("reverts are mapped to typed errors", async () => {
+    await expect(client.register({ ...chainData, chainName: "" })).rejects.toBeInstanceOf(ChainNameEmptyError);
+    await expect(client.register(chainData)).rejects.toBeInstanceOf(ChainNameAlreadyRegisteredError);
+    await expect(client.demoRegister({ ...chainData, chainName: "base-alt" })).rejects.toBeInstanceOf(
+      CAIP2HashAlreadyRegisteredError
+    );
+
+    // The original ethers error is kept as the standard Error.cause
+    const err = await client.register(chainData).catch((e) => e);
+    expect(err.errorName).toBe("ChainNameAlreadyRegistered");
+    expect(revertName(client.interface, err.cause)).toBe("ChainNameAlreadyRegistered");
+  });
+
+  // demoRegister is open to anyone
+  test("demoRegister", async () => {
+    const { chainId: opId } = await client.demoRegister({
+      ...chainData,
+      chainName: "optimism",
+      settlementChainId: 1,
+      chainReference: "10",
+    });
+    expect((await client.chainDataFromCaip2("eip155", "10"))?.chainId).toBe(opId);
+  });
+});
@@ -1,220 +1,223 @@
 /**
  * @description Deploys and tests the functioning of the ChainRegistry and ChainResolver contracts.
- * @usage       bun run tests/ChainResolver.test.ts
+ * @usage       bun test tests/ChainResolver.test.ts
  * @author      Thomas Clowes (clowes.eth)
  * @date        2025-08-22
  */
 
-import { Foundry } from "@adraffy/blocksmith";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 
-import { Contract, namehash, toBeHex } from "ethers";
+import { Wallet, namehash, toBeHex } from "ethers";
 
-import { CHAIN_MAP } from "../deploy/constants";
-import { solidityFollowSlot } from "./helpers";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { createName, createSubnode, deployENS, deployNameWrapper, setResolver, wrapName } from "./ens";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+import { expectRevert } from "./helpers";
 
 // The second level name we are going to use to host chain-id resolution
 const NAME_TO_TEST = "cid.eth";
-const NODE = namehash(NAME_TO_TEST);
-const SLOT = solidityFollowSlot(0, NODE) + 1n;
-
-// ENS Registry address
-const ENS = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
-
-const SEPOLIA_CHAIN_ID = 11155111;
 
 // We propose standardizing on the 'chain-id' text record key for chain-id resolution
 const CHAIN_ID_TEXT_RECORD_KEY = "chain-id";
 
-const foundry = await Foundry.launch({
-  fork: CHAIN_MAP.get(SEPOLIA_CHAIN_ID).rpc,
-  procLog: true,
-  infoLog: true,
-});
+// Our chain data for Base Sepolia subject to the in-process 7785 definition
+const BASE_CHAIN_NAME = "base";
+const chainData = { ...BASE_CHAIN_DATA, coinType: 8453 };
 
-// Deploy the libraries we need
-const CAIP2 = await foundry.deploy({
-  file: "CAIP2",
-  args: [],
-});
+describe("ChainResolver", () => {
+  let foundry, provider, ens, chainRegistry, chainResolver;
+  let NODE: string;
+  let chainId: string;
 
-const ENSCoinType = await foundry.deploy({
-  file: "ENSCoinType",
-  args: [],
-});
+  beforeAll(async () => {
+    foundry = await launchFoundry();
 
-const ERC7785ChainId = await foundry.deploy({
-  file: "ERC7785ChainId",
-  args: [],
-});
+    // Deploy a local ENS registry
+    ({ ens, provider } = await deployENS(foundry));
 
-// Deploy the ChainRegistry
-const chainRegistry = await foundry.deploy({
-  file: "ChainRegistry",
-  args: [],
-  libs: { CAIP2, ENSCoinType, ERC7785ChainId },
-});
+    // Deploy the libraries and the ChainRegistry
+    ({ chainRegistry } = await deployChainRegistry(foundry));
 
-// Our chain data for Base Sepolia subject to the in-process 7785 definition
-const BASE_OPTIMISM_PORTAL_SEPOLIA =
-  "0x49f53e41452C74589E85cA1677426Ba426459e85";
-const BASE_CHAIN_NAME = "base";
+    // Register the chain data and get the 7785 chain id from the receipt
+    const receipt = await foundry.confirm(chainRegistry.register(chainData));
+    chainId = receipt.logs[0].args.chainId;
 
-const chainData = {
-  chainName: BASE_CHAIN_NAME,
-  settlementChainId: 8453,
-  version: "1",
-  rollupContract: BASE_OPTIMISM_PORTAL_SEPOLIA,
-  chainNamespace: "eip155",
-  chainReference: "8453",
-  coinType: 8453,
-};
-
-// Register the chain data
-const receipt = await foundry.confirm(chainRegistry.register(chainData));
-
-// Get the 7785chain id from the receipt
-const chainId = receipt.logs[0].args.chainId;
-
-// Deploy the ChainResolver
-const chainResolver = await foundry.deploy({
-  file: "ChainResolver",
-  args: [chainRegistry.target],
-});
+    // Deploy the ChainResolver and assign the chain id to the 'base' subname
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+    await foundry.confirm(chainResolver.assign(BASE_CHAIN_NAME, chainId));
 
-// Assign the chain id to the 'base' subname in the resolver
-await foundry.confirm(chainResolver.assign(BASE_CHAIN_NAME, chainId));
-
-// Hijack the ENS registry to point cid.eth's resolverto the ChainResolver
-await foundry.provider.send("anvil_setStorageAt", [
-  ENS,
-  toBeHex(SLOT, 32),
-  toBeHex(chainResolver.target, 32),
-]);
-
-const ens = new Contract(
-  ENS,
-  ["function resolver(bytes32 node) view returns (address)"],
-  foundry.provider
-);
-
-console.log("Hijacked:", await ens.resolver(NODE));
-
-// Helper function to resolve a chain-id from a name
-async function resolve(name: string) {
-  const resolver = await foundry.provider.getResolver(name);
-
-  if (!resolver) throw new Error("bug");
-  const [chainId] = await Promise.all([
-    resolver.getText(CHAIN_ID_TEXT_RECORD_KEY),
-  ]);
-  console.log({
-    name,
-    chainId,
-  });
-}
-
-// Do the resolution
-await resolve(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
-
-// We can now get the chain data from the chain registry using that chainId
-// No need for any 'reverse lookup' as the 7785 chainId can be used to lookup all other chain data
-const data = await chainRegistry.chainDataFromId(chainId);
-
-console.log("Chain data:", data);
-
-// Verify ENS coinType lookup works with both normalized (ENSIP-11) and raw chainId inputs
-const [existsRaw] = await chainRegistry.chainDataFromEnsCoinType(8453n);
-const normalizedCoinType = (1n << 31n) | 8453n; // ENSIP-11: MSB | chainId for non-mainnet
-const [existsNormalized] = await chainRegistry.chainDataFromEnsCoinType(normalizedCoinType);
-console.log("ENS coinType lookups:", { existsRaw, existsNormalized });
-
-// Additional checks: uniqueness constraints with exact custom error decoding
-async function expectRevertRegister(
-  testName: string,
-  payload: typeof chainData,
-  expectedErrorName?: string,
-) {
-  // Simulate via eth_call to avoid estimateGas preflight and decode the custom error
-  const calldata = chainRegistry.interface.encodeFunctionData("register", [payload]);
-  try {
-    const from = await foundry.wallets.admin.getAddress();
-    await foundry.provider.call({ from, to: chainRegistry.target, data: calldata });
-    console.error(`Expected revert: ${testName}`);
-  } catch (err: any) {
-    const raw = err?.data?.data ?? err?.data ?? err?.error?.data ?? err?.info?.error?.data;
-    let decodedName = "unknown";
-    try {
-      const parsed = chainRegistry.interface.parseError(raw);
-      decodedName = parsed?.name ?? decodedName;
-    } catch {}
-    if (expectedErrorName && decodedName !== expectedErrorName) {
-      console.error(`Unexpected revert: got ${decodedName}, want ${expectedErrorName}`);
-    } else {
-      console.log(`Reverted as expected [${decodedName}]: ${testName}`);
-    }
-  }
-}
-
-// 1) Duplicate chainName should revert (different CAIP2 to isolate name check)
-await expectRevertRegister(
-  "duplicate chainName",
-  {
-    ...chainData,
-  },
-  "ChainNameAlreadyRegistered"
-);
-
-// 2) Duplicate CAIP2 pair should revert (different name to isolate CAIP2 check)
-await expectRevertRegister(
-  "duplicate CAIP2 pair",
-  {
-    ...chainData,
-    chainName: "base-alt",
-  },
-  "CAIP2HashAlreadyRegistered"
-);
-
-// Prevent assigning the same label twice
-async function expectRevertAssign(
-  testName: string,
-  label: string,
-  id: string,
-  expectedErrorName?: string
-) {
-  const calldata = chainResolver.interface.encodeFunctionData("assign", [label, id]);
-  try {
-    const from = await foundry.wallets.admin.getAddress();
-    await foundry.provider.call({ from, to: chainResolver.target, data: calldata });
-    console.error(`Expected revert: ${testName}`);
-  } catch (err: any) {
-    const raw = err?.data?.data ?? err?.data ?? err?.error?.data ?? err?.info?.error?.data;
-    let decodedName = "unknown";
-    try {
-      const parsed = chainResolver.interface.parseError(raw);
-      decodedName = parsed?.name ?? decodedName;
-    } catch {}
-    if (expectedErrorName && decodedName !== expectedErrorName) {
-      console.error(`Unexpected revert: got ${decodedName}, want ${expectedErrorName}`);
-    } else {
-      console.log(`Reverted as expected [${decodedName}]: ${testName}`);
+    // Create cid.eth and point its resolver to the ChainResolver
+    NODE = await setResolver(foundry, ens, NAME_TO_TEST, chainResolver.target);
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("cid.eth resolver is the ChainResolver", async () => {
+    expect(await ens.resolver(NODE)).toBe(chainResolver.target);
+  });
+
+  test("resolves the chain-id text record for base.cid.eth", async () => {
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(resolver).not.toBeNull();
+    expect(await resolver.getText(CHAIN_ID_TEXT_RECORD_KEY)).toBe(chainId);
+  });
+
+  test("resolves the registry-derived text records for base.cid.eth", async () => {
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await resolver.getText("caip2")).toBe("eip155:8453");
+    expect(await resolver.getText("coin-type")).toBe(((1n << 31n) | 8453n).toString());
+    expect(await resolver.getText("chain-name")).toBe(BASE_CHAIN_NAME);
+    expect(await resolver.getText("version")).toBe(chainData.version);
+    expect(await resolver.getText("rollup-contract")).toBe(chainData.rollupContract);
+    expect(await resolver.getText("settlement-chain-id")).toBe(chainData.settlementChainId.toString());
+  });
+
+  test("resolves addr records to the rollup contract", async () => {
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await resolver.getAddress()).toBe(chainData.rollupContract);
+    // The settlement chain's ENSIP-11 coinType
+    expect(await resolver.getAddress((1n << 31n) | BigInt(chainData.settlementChainId))).toBe(chainData.rollupContract);
+    // Any other chain has no address
+    expect(await resolver.getAddress((1n << 31n) | 10n)).toBeNull();
+  });
+
+  test("registry-derived records are empty for an unassigned label", async () => {
+    const resolver = await provider.getResolver(`unassigned.${NAME_TO_TEST}`);
+    expect(await resolver.getText("caip2")).toBe("");
+    expect(await resolver.getAddress()).toBeNull();
+  });
+
+  test("supportsInterface advertises addr, text and ENSIP-10", async () => {
+    for (const interfaceId of ["0x01ffc9a7", "0x3b3b57de", "0xf1cb7e06", "0x59d1d43c", "0x9061b923"]) {
+      expect(await chainResolver.supportsInterface(interfaceId)).toBe(true);
     }
-  }
-}
-
-// 3) Duplicate label assignment should revert
-await expectRevertAssign(
-  "duplicate label same id",
-  BASE_CHAIN_NAME,
-  chainId,
-  "LabelAlreadyAssigned"
-);
-
-// 4) Duplicate label with different id should also revert
-await expectRevertAssign(
-  "duplicate label different id",
-  BASE_CHAIN_NAME,
-  toBeHex(1n, 32),
-  "LabelAlreadyAssigned"
-);
-
-await foundry.shutdown();
+    expect(await chainResolver.supportsInterface("0xffffffff")).toBe(false);
+  });
+
+  // No need for any 'reverse lookup' as the 7785 chainId can be used to lookup all other chain data
+  test("the resolved chain id looks up the chain data", async () => {
+    const [exists, data] = await chainRegistry.chainDataFromId(chainId);
+    expect(exists).toBe(true);
+    expect(data.chainName).toBe(BASE_CHAIN_NAME);
+    expect(data.rollupContract).toBe(chainData.rollupContract);
+  });
+
+  // ENS coinType lookup works with the normalized (ENSIP-11) coinType, not the raw chainId
+  test("ENS coinType lookup uses the normalized coinType", async () => {
+    const [existsRaw] = await chainRegistry.chainDataFromEnsCoinType(8453n);
+    const normalizedCoinType = (1n << 31n) | 8453n; // ENSIP-11: MSB | chainId for non-mainnet
+    const [existsNormalized, data] = await chainRegistry.chainDataFromEnsCoinType(normalizedCoinType);
+    expect(existsRaw).toBe(false);
+    expect(existsNormalized).toBe(true);
+    expect(data.coinType).toBe(normalizedCoinType);
+  });
+
+  // Uniqueness constraints with exact custom error decoding
+  test("duplicate chainName reverts", async () => {
+    await expectRevert(
+      chainRegistry.register.staticCall(chainData),
+      chainRegistry,
+      "ChainNameAlreadyRegistered"
+    );
+  });
+
+  test("duplicate CAIP2 pair reverts", async () => {
+    await expectRevert(
+      chainRegistry.register.staticCall({ ...chainData, chainName: "base-alt" }),
+      chainRegistry,
+      "CAIP2HashAlreadyRegistered"
+    );
+  });
+
+  test("duplicate label with the same id reverts", async () => {
+    await expectRevert(
+      chainResolver.assign.staticCall(BASE_CHAIN_NAME, chainId),
+      chainResolver,
+      "LabelAlreadyAssigned"
+    );
+  });
+
+  test("duplicate label with a different id reverts", async () => {
+    await expectRevert(
+      chainResolver.assign.staticCall(BASE_CHAIN_NAME, toBeHex(1n, 32)),
+      chainResolver,
+      "LabelAlreadyAssigned"
+    );
+  });
+
+  // Supersedes base, so it runs last
+  test("base.cid.eth follows base to the entry that supersedes it", async () => {
+    const replacement = { ...chainData, rollupContract: "0x56315b90c40730925ec5485cf004d835058518A0" };
+    const receipt = await foundry.confirm(chainRegistry.supersede(chainId, replacement));
+    const newChainId = receipt.logs[0].args.chainId;
+
+    // The label stays assigned to the original entry
+    expect(await chainResolver.nodeToChainId(namehash(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`))).toBe(chainId);
+
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await resolver.getText(CHAIN_ID_TEXT_RECORD_KEY)).toBe(newChainId);
+    expect(await resolver.getText("rollup-contract")).toBe(replacement.rollupContract);
+    expect(await resolver.getAddress()).toBe(replacement.rollupContract);
+
+    // The CAIP-2 pair now maps to the new entry, which has no label of its own
+    const client = new ChainResolverClient(chainResolver.target, foundry.provider);
+    expect(await client.labelForCaip2("eip155:8453")).toBe(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await client.labelForChain(newChainId)).toBe(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await client.labelsForChain(newChainId)).toEqual([`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`]);
+  });
+});
+
+describe("ChainResolver behind other ENS names", () => {
+  let foundry, provider, ens, wrapper, chainResolver;
+  let chainId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ ens, provider } = await deployENS(foundry));
+    wrapper = await deployNameWrapper(foundry, ens);
+
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    const receipt = await foundry.confirm(chainRegistry.register(chainData));
+    chainId = receipt.logs[0].args.chainId;
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+    await foundry.confirm(chainResolver.assign(BASE_CHAIN_NAME, chainId));
+
+    // cid.eth is wrapped, so its resolver can only be set through the NameWrapper
+    await createName(foundry, ens, NAME_TO_TEST);
+    await wrapName(foundry, ens, wrapper, NAME_TO_TEST);
+    await setResolver(foundry, ens, NAME_TO_TEST, chainResolver.target, { wrapper });
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("resolves through a wrapped cid.eth", async () => {
+    expect(await wrapper.isWrapped(namehash(NAME_TO_TEST))).toBe(true);
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(await resolver.getText(CHAIN_ID_TEXT_RECORD_KEY)).toBe(chainId);
+  });
+
+  test("a wrapped subnode with its own owner still resolves through cid.eth", async () => {
+    const owner = Wallet.createRandom().address;
+    const node = await createSubnode(foundry, ens, NAME_TO_TEST, BASE_CHAIN_NAME, owner, { wrapper });
+    expect(await wrapper.ownerOf(node)).toBe(owner);
+
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${NAME_TO_TEST}`);
+    expect(resolver.address).toBe(chainResolver.target);
+    expect(await resolver.getText(CHAIN_ID_TEXT_RECORD_KEY)).toBe(chainId);
+  });
+
+  test("labels only resolve under cid.eth", async () => {
+    // A testnet variant of cid.eth hosted by the same resolver: the resolver computes nodes under cid.eth only
+    const name = "cid.sepolia.eth";
+    await setResolver(foundry, ens, name, chainResolver.target, { wrapper });
+
+    const resolver = await provider.getResolver(`${BASE_CHAIN_NAME}.${name}`);
+    expect(resolver.address).toBe(chainResolver.target);
+    expect(await resolver.getText("caip2")).toBe("");
+    expect(await resolver.getAddress()).toBeNull();
+  });
+
+  test("setResolver refuses a wrapped name without the wrapper", async () => {
+    await expect(setResolver(foundry, ens, NAME_TO_TEST, chainResolver.target)).rejects.toThrow();
+  });
+});
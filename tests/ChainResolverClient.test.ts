@@ -0,0 +1,82 @@
+/**
+ * @description Tests the typed ChainResolver client (sdk/ChainResolverClient.ts):
+ *              reverse lookups from a 7785 chain ID or CAIP-2 identifier to the full cid.eth name, and typed errors.
+ * @usage       bun test tests/ChainResolverClient.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { VoidSigner, Wallet, ZeroHash } from "ethers";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { ChainResolverError, LabelAlreadyAssignedError } from "../sdk/errors";
+import { InvalidLabelError } from "../sdk/labels";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+describe("ChainResolverClient", () => {
+  let foundry, chainResolver, client: ChainResolverClient;
+  let chainId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+    client = new ChainResolverClient(chainResolver.target, foundry.wallets.admin);
+
+    const receipt = await foundry.confirm(chainRegistry.register(BASE_CHAIN_DATA));
+    chainId = receipt.logs[0].args.chainId;
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("unassigned chains have no label", async () => {
+    expect(await client.labelForChain(chainId)).toBeNull();
+    expect(await client.labelsForChain(chainId)).toEqual([]);
+    expect(await client.labelForCaip2("eip155:8453")).toBeNull();
+  });
+
+  test("labelForChain returns the full ENS name", async () => {
+    await foundry.confirm(chainResolver.assign("base", chainId));
+    expect(await client.labelForChain(chainId)).toBe("base.cid.eth");
+    expect(await client.chainIdForLabel("base")).toBe(chainId);
+  });
+
+  test("labelForCaip2 goes through the registry", async () => {
+    expect(await client.labelForCaip2("eip155:8453")).toBe("base.cid.eth");
+    expect(await client.labelForCaip2("eip155:10")).toBeNull();
+  });
+
+  test("every label for a chain is listed, the first stays primary", async () => {
+    await foundry.confirm(chainResolver.assign("base-mainnet", chainId));
+    expect(await client.labelsForChain(chainId)).toEqual(["base.cid.eth", "base-mainnet.cid.eth"]);
+    expect(await client.labelForChain(chainId)).toBe("base.cid.eth");
+  });
+
+  test("assign refuses labels that are not ENSIP-15 normalized", async () => {
+    await expect(client.assign("Base", chainId)).rejects.toBeInstanceOf(InvalidLabelError);
+    await expect(client.assign("b\u0430se", chainId)).rejects.toBeInstanceOf(InvalidLabelError);
+    expect(await client.labelsForChain(chainId)).toEqual(["base.cid.eth", "base-mainnet.cid.eth"]);
+  });
+
+  test("assign returns the name and node", async () => {
+    const { name, node } = await client.assign("base-l2", chainId);
+    expect(name).toBe("base-l2.cid.eth");
+    expect(node).toBe(await chainResolver.computeNode("base-l2"));
+  });
+
+  test("reverts are mapped to typed errors", async () => {
+    await expect(client.assign("base", chainId)).rejects.toBeInstanceOf(LabelAlreadyAssignedError);
+
+    // Simulated from an account that does not own the resolver
+    const stranger = new ChainResolverClient(
+      chainResolver.target,
+      new VoidSigner(Wallet.createRandom().address, foundry.provider)
+    );
+    const err = await stranger.assign("optimism", chainId).catch((e) => e);
+    expect(err).toBeInstanceOf(ChainResolverError);
+    expect(err.errorName).toBe("OwnableUnauthorizedAccount");
+  });
+
+  test("unknown chain IDs have no label", async () => {
+    expect(await client.labelForChain(ZeroHash)).toBeNull();
+    expect(await client.chainIdForLabel("optimism")).toBeNull();
+  });
+});
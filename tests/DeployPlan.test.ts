@@ -0,0 +1,176 @@
+/**
+ * @description Tests deployment plans (deploy/plan.ts): plan parsing, how --yes, --plan= and --dry-run set up the
+ *              plan context, answering prompts from the plan, and dry-run address prediction against a local anvil.
+ * @usage       bun test tests/DeployPlan.test.ts
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { getAddress } from "ethers";
+import { LOCAL_NETWORK, NetworkConfig } from "../deploy/networks";
+import {
+  DEFAULT_PLAN,
+  PlanContext,
+  decide,
+  initPlan,
+  loadPlan,
+  planDependency,
+  planDeploy,
+  planVerify,
+} from "../deploy/plan";
+import { deployChainRegistry, launchFoundry } from "./fixtures";
+
+// No deployments/<chainId>/ directory exists for this chain, so nothing counts as already deployed
+const NETWORK: NetworkConfig = { ...LOCAL_NETWORK, chainId: 424242, verifier: { type: "sourcify" } };
+
+const LIBRARIES = ["CAIP2", "ENSCoinType", "ERC7785ChainId"];
+
+// A readline stand-in that answers every question with the given answer, and records the questions
+function answering(answer: string) {
+  const questions: string[] = [];
+  return {
+    questions,
+    question(query: string, callback: (answer: string) => void) {
+      questions.push(query);
+      callback(answer);
+    },
+  };
+}
+
+describe("deployment plans", () => {
+  let dir: string;
+  let log: ReturnType<typeof spyOn>;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "plan-"));
+    log = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => log.mockClear());
+
+  afterAll(async () => {
+    log.mockRestore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function planFile(json: unknown): Promise<string> {
+    const file = path.join(dir, `plan-${Math.random().toString(36).slice(2)}.json`);
+    await writeFile(file, JSON.stringify(json));
+    return file;
+  }
+
+  test("the example plan parses", async () => {
+    const plan = await loadPlan(path.resolve(__dirname, "../deploy/plan.example.json"));
+    expect(plan.ChainResolver).toEqual({ deploy: true, verify: false });
+    expect(Object.keys(plan)).toEqual(Object.keys(DEFAULT_PLAN));
+  });
+
+  test("entries a plan does not mention default to deploy and verify", async () => {
+    const plan = await loadPlan(await planFile({ CAIP2: { deploy: false, verify: false } }));
+    expect(plan).toEqual({ ...DEFAULT_PLAN, CAIP2: { deploy: false, verify: false } });
+  });
+
+  test("malformed plan entries are refused", async () => {
+    for (const entry of [{ deploy: true }, { deploy: "yes", verify: true }, null, true]) {
+      await expect(loadPlan(await planFile({ ChainRegistry: entry }))).rejects.toThrow(
+        `Plan entry ChainRegistry must be { "deploy": boolean, "verify": boolean }`
+      );
+    }
+    const list = await planFile([{ deploy: true, verify: true }]);
+    await expect(loadPlan(list)).rejects.toThrow(`${list}: expected an object keyed by contract name`);
+    await expect(loadPlan(path.join(dir, "missing.json"))).rejects.toThrow();
+  });
+
+  test("--yes, --plan= and --dry-run run unattended", async () => {
+    const prompted = await initPlan(new Map(), NETWORK);
+    expect(prompted).toMatchObject({ plan: DEFAULT_PLAN, unattended: false, dryRun: false, chainId: NETWORK.chainId });
+
+    expect(await initPlan(new Map([["yes", "true"]]), NETWORK)).toMatchObject({ unattended: true, dryRun: false });
+    expect(await initPlan(new Map([["dry-run", "true"]]), NETWORK)).toMatchObject({ unattended: true, dryRun: true });
+
+    const file = await planFile({ ChainResolver: { deploy: false, verify: false } });
+    const planned = await initPlan(new Map([["plan", file]]), NETWORK);
+    expect(planned).toMatchObject({ unattended: true, dryRun: false });
+    expect(planned.plan.ChainResolver).toEqual({ deploy: false, verify: false });
+  });
+
+  test("decide answers from the plan when unattended and prompts otherwise", async () => {
+    const unattended = await initPlan(new Map([["yes", "true"]]), NETWORK);
+    const rl = answering("n");
+    expect(await decide(unattended, rl, "Verify CAIP2? (y/n)", true)).toBe(true);
+    expect(await decide(unattended, rl, "Verify CAIP2? (y/n)", false)).toBe(false);
+    expect(rl.questions).toEqual([]);
+
+    const prompted = await initPlan(new Map(), NETWORK);
+    expect(await decide(prompted, rl, "Verify CAIP2? (y/n)", true)).toBe(false);
+    expect(await decide(prompted, answering("y"), "Verify CAIP2? (y/n)", false)).toBe(true);
+    expect(rl.questions).toEqual(["Verify CAIP2? (y/n)"]);
+  });
+
+  test("a dependency comes from its override, else fails clearly when it was never saved", async () => {
+    const ctx = await initPlan(new Map([["dry-run", "true"]]), NETWORK);
+    const registry = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
+    expect(await planDependency(ctx, "ChainRegistry", "registry", registry)).toBe(getAddress(registry));
+    await expect(planDependency(ctx, "ChainRegistry", "registry")).rejects.toThrow(
+      "ChainRegistry is not deployed on chain 424242 (no deployments/424242/ChainRegistry.json). " +
+        "Deploy it first, or pass its address (e.g. the one a dry run predicted) as --registry="
+    );
+  });
+});
+
+describe("dry-run deployment", () => {
+  let foundry, log: ReturnType<typeof spyOn>;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    log = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    log.mockRestore();
+    return foundry?.shutdown();
+  });
+
+  test("prints every action and predicts the addresses a real deployment gets", async () => {
+    const deployer = foundry.wallets.admin;
+    const ctx: PlanContext = await initPlan(new Map([["dry-run", "true"]]), NETWORK);
+    const nonce = await deployer.getNonce();
+
+    // Libraries first, then the ChainRegistry linked against them, as deploy/DeployChainRegistry.ts does
+    const predicted: Record<string, string> = {};
+    for (const name of [...LIBRARIES, "ChainRegistry"]) {
+      const { contract, contractAddress, already } = await planDeploy(ctx, null, deployer, name, [], {});
+      expect(contract).toBeUndefined();
+      expect(already).toBe(false);
+      predicted[name] = contractAddress;
+      await planVerify(ctx, contract, name, [], {}, null);
+    }
+
+    const lines = log.mock.calls.map((args) => args.join(" "));
+    for (const name of [...LIBRARIES, "ChainRegistry"]) {
+      expect(lines).toContain(`[dry-run] Would deploy ${name} (args: []) to ${predicted[name]}`);
+      expect(lines).toContain(`[dry-run] Would verify ${name} with sourcify`);
+    }
+
+    // Nothing was sent
+    expect(await deployer.getNonce()).toBe(nonce);
+    expect(new Set(Object.values(predicted)).size).toBe(4);
+
+    // Deploying for real from the same account lands on the predicted addresses
+    const deployed = await deployChainRegistry(foundry);
+    for (const name of LIBRARIES) {
+      expect(deployed[name].target).toBe(predicted[name]);
+    }
+    expect(deployed.chainRegistry.target).toBe(predicted.ChainRegistry);
+  });
+
+  test("without a verifier, verification is skipped rather than predicted", async () => {
+    const ctx = await initPlan(new Map([["dry-run", "true"]]), LOCAL_NETWORK);
+    await planVerify(ctx, undefined, "ChainRegistry", [], {}, null);
+    expect(log.mock.calls.at(-1)).toEqual([
+      "No verifier configured for local. Skipping verification of ChainRegistry.",
+    ]);
+  });
+});
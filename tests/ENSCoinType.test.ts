@@ -1,42 +1,87 @@
 /**
- * @description Validates ENSCoinType.evmCoinType() returns correct ENSIP-11 value for Base (8453).
- * @usage       bun run tests/ENSCoinType.test.ts
+ * @description Validates ENSCoinType.evmCoinType() returns correct ENSIP-11 value for Base (8453),
+ *              and that the TypeScript mirror (sdk/ENSCoinType.ts) agrees with it.
+ * @usage       bun test tests/ENSCoinType.test.ts
  */
 
-import { Foundry } from "@adraffy/blocksmith";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { Contract } from "ethers";
-import { CHAIN_MAP } from "../deploy/constants";
+import {
+  chainIdFromCoinType,
+  coinTypeWarnings,
+  evmCoinType,
+  findCoinTypeCollisions,
+  registryCoinType,
+  slip44CoinType,
+} from "../sdk/ENSCoinType";
+import { BASE_CHAIN_DATA, launchFoundry } from "./fixtures";
 
-const SEPOLIA_CHAIN_ID = 11155111;
+const baseChainId = 8453n;
+const expectedCoinType = 2147492101n; // 0x80000000 | 8453
 
-const foundry = await Foundry.launch({
-  fork: CHAIN_MAP.get(SEPOLIA_CHAIN_ID).rpc,
-  procLog: true,
-  infoLog: true,
-});
+describe("ENSCoinType library", () => {
+  let foundry, lib: Contract;
 
-// Deploy the ENSCoinType library
-const ENSCoinType = await foundry.deploy({
-  file: "ENSCoinType",
-  args: [],
-});
+  beforeAll(async () => {
+    foundry = await launchFoundry();
 
-// Minimal ABI to call the library function
-const abi = ["function evmCoinType(uint256) view returns (uint256)"];
-const lib = new Contract(ENSCoinType.target, abi, foundry.provider);
+    // Deploy the ENSCoinType library
+    const ENSCoinType = await foundry.deploy({
+      file: "ENSCoinType",
+      args: [],
+    });
 
-const baseChainId = 8453n;
-const expectedCoinType = 2147492101n; // 0x80000000 | 8453
+    // Minimal ABI to call the library function
+    const abi = ["function evmCoinType(uint256) view returns (uint256)"];
+    lib = new Contract(ENSCoinType.target, abi, foundry.provider);
+  });
+
+  afterAll(() => foundry?.shutdown());
 
-const actualCoinType = await lib.evmCoinType(baseChainId);
+  test("evmCoinType for Base (8453)", async () => {
+    expect(await lib.evmCoinType(baseChainId)).toBe(expectedCoinType);
+  });
 
-console.log("ENSCoinType for Base (8453):", actualCoinType.toString());
+  // The TypeScript implementation must agree with the library
+  test("TypeScript evmCoinType matches the library", async () => {
+    const chainIds = [0n, 1n, 10n, 8453n, 42161n, 11155111n, (1n << 31n) - 1n, 1n << 31n, (1n << 32n) + 5n];
+    for (const chainId of chainIds) {
+      expect(evmCoinType(chainId)).toBe(await lib.evmCoinType(chainId));
+    }
+  });
+});
 
-if (actualCoinType !== expectedCoinType) {
-  throw new Error(
-    `Mismatch: expected ${expectedCoinType}, got ${actualCoinType}`
-  );
-}
+describe("ENSCoinType TypeScript", () => {
+  // chainIdFromCoinType is internal so it can only be checked offline
+  test("round trips and the mainnet special case", () => {
+    expect(evmCoinType(baseChainId)).toBe(expectedCoinType);
+    expect(chainIdFromCoinType(expectedCoinType)).toBe(baseChainId);
+    expect(evmCoinType(1)).toBe(60n);
+    expect(chainIdFromCoinType(60)).toBe(1n);
+  });
 
-await foundry.shutdown();
+  test("bundled SLIP-44 table", () => {
+    expect(slip44CoinType("solana", "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp")).toBe(501n);
+    expect(slip44CoinType("cosmos", "cosmoshub-4")).toBe(118n);
+    expect(slip44CoinType("foo", "bar")).toBeUndefined();
+  });
 
+  // Registry normalization: eip155 ignores the supplied coinType
+  test("registry normalization", () => {
+    const base = { ...BASE_CHAIN_DATA, coinType: 8453 };
+    expect(registryCoinType(base)).toBe(expectedCoinType);
+    expect(coinTypeWarnings(base)).toHaveLength(1);
+  });
+
+  // A second chain claiming the same coinType is shadowed
+  test("coinType collisions", () => {
+    const base = BASE_CHAIN_DATA;
+    const collisions = findCoinTypeCollisions([
+      base,
+      { ...base, chainName: "base-fork" },
+      { ...base, chainName: "solana", chainNamespace: "solana", chainReference: "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", coinType: 501 },
+      { ...base, chainName: "imposter", chainNamespace: "foo", chainReference: "bar", coinType: expectedCoinType },
+    ]);
+    expect(collisions).toEqual([{ coinType: expectedCoinType, owner: "base", shadowed: ["base-fork", "imposter"] }]);
+  });
+});
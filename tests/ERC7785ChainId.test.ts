@@ -0,0 +1,97 @@
+/**
+ * @description Checks the offline TypeScript computeChainId (sdk/ERC7785ChainId.ts) against the
+ *              deployed ERC7785ChainId library for a wide range of ChainData inputs.
+ * @usage       bun test tests/ERC7785ChainId.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { MaxUint256, ZeroAddress, getAddress, keccak256, toUtf8Bytes } from "ethers";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import { ChainData } from "../sdk/types";
+import { launchFoundry, onchainChainId } from "./fixtures";
+
+// Deterministic pseudo-random source so failures are reproducible
+let seed = keccak256(toUtf8Bytes("erc7785-parity"));
+function next(): bigint {
+  seed = keccak256(seed);
+  return BigInt(seed);
+}
+function pick<T>(xs: readonly T[]): T {
+  return xs[Number(next() % BigInt(xs.length))];
+}
+
+const NAMES = ["base", "optimism", "Arbitrum One", "", "zkSync Era", "ĉeńo", "链", "🦄 chain", "a".repeat(100)];
+const VERSIONS = ["1", "2", "", "v1.0.0-beta", "x".repeat(33)];
+const NAMESPACES = ["eip155", "bip122", "solana", "cosmos", "", "starknet"];
+const REFERENCES = ["1", "8453", "0", "000000000019d6689c085ae165831e93", "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", "cosmoshub-4", ""];
+
+const cases: ChainData[] = [
+  // Base as registered by the other tests
+  {
+    chainName: "base",
+    settlementChainId: 8453,
+    version: "1",
+    rollupContract: "0x49f53e41452C74589E85cA1677426Ba426459e85",
+    chainNamespace: "eip155",
+    chainReference: "8453",
+    coinType: 8453,
+  },
+  // Boundary values
+  {
+    chainName: "",
+    settlementChainId: 0,
+    version: "",
+    rollupContract: ZeroAddress,
+    chainNamespace: "",
+    chainReference: "",
+    coinType: 0,
+  },
+  {
+    chainName: "max",
+    settlementChainId: MaxUint256,
+    version: "1",
+    rollupContract: "0xFFfFfFffFFfffFFfFFfFFFFFffFFFffffFfFFFfF",
+    chainNamespace: "eip155",
+    chainReference: MaxUint256.toString(),
+    coinType: MaxUint256,
+  },
+];
+
+for (let i = 0; i < 64; i++) {
+  cases.push({
+    chainName: pick(NAMES),
+    settlementChainId: next() >> BigInt(Number(next() % 256n)),
+    version: pick(VERSIONS),
+    rollupContract: getAddress("0x" + next().toString(16).padStart(64, "0").slice(-40)),
+    chainNamespace: pick(NAMESPACES),
+    chainReference: pick(REFERENCES),
+    coinType: next(),
+  });
+}
+
+describe("ERC7785ChainId", () => {
+  let foundry, ERC7785ChainId;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+
+    // Deploy the ERC7785ChainId library
+    ERC7785ChainId = await foundry.deploy({
+      file: "ERC7785ChainId",
+      args: [],
+    });
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test(`TypeScript computeChainId matches the library for ${cases.length} inputs`, async () => {
+    for (const data of cases) {
+      expect(computeChainId(data)).toBe(await onchainChainId(foundry, ERC7785ChainId, data));
+    }
+  });
+
+  // coinType is not part of the preimage, so changing it must not change the ID
+  test("coinType does not affect the chain ID", () => {
+    expect(computeChainId({ ...cases[0], coinType: 123456789n })).toBe(computeChainId(cases[0]));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @description Tests ERC-7930 interoperable address encoding (sdk/ERC7930.ts) and resolving an
+ *              interoperable address to its ChainRegistry entry.
+ * @usage       bun test tests/ERC7930.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import {
+  caip2ToInterop,
+  chainReferenceToBytes,
+  decodeInteroperableAddress,
+  encodeInteroperableAddress,
+  formatInteroperableAddress,
+  interopToCaip2,
+  parseInteroperableAddress,
+} from "../sdk/ERC7930";
+import { BASE_CHAIN_DATA, deployChainRegistry, launchFoundry } from "./fixtures";
+
+const VITALIK = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+// Known vector: vitalik.eth on Ethereum mainnet
+const mainnet = caip2ToInterop({ namespace: "eip155", reference: "1" }, VITALIK);
+const binary = "0x00010000010114d8da6bf26964af9d7eed9e03e53415d37aa96045";
+
+describe("ERC-7930 encoding", () => {
+  test("binary round trip", () => {
+    expect(encodeInteroperableAddress(mainnet)).toBe(binary);
+    expect(decodeInteroperableAddress(binary)).toEqual({
+      chainType: 0,
+      chainReference: "0x01",
+      address: VITALIK.toLowerCase(),
+    });
+  });
+
+  // Chain-only address (no address part)
+  test("chain-only address", () => {
+    const baseChain = caip2ToInterop({ namespace: "eip155", reference: "8453" });
+    expect(encodeInteroperableAddress(baseChain)).toBe("0x0001000002210500");
+    expect(interopToCaip2(encodeInteroperableAddress(baseChain))).toEqual({ namespace: "eip155", reference: "8453" });
+  });
+
+  // Solana keeps leading zero bytes through base58
+  test("solana base58 references and addresses", () => {
+    const solana = caip2ToInterop(
+      { namespace: "solana", reference: "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp" },
+      "11111111111111111111111111111111"
+    );
+    const encoded = encodeInteroperableAddress(solana);
+    expect(interopToCaip2(encoded).reference).toBe("5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp");
+    expect(decodeInteroperableAddress(encoded).address).toBe("0x" + "00".repeat(32));
+  });
+
+  test("text round trip with checksum", () => {
+    const text = formatInteroperableAddress(binary);
+    expect(text).toStartWith(`${VITALIK}@eip155:1#`);
+    expect(encodeInteroperableAddress(parseInteroperableAddress(text))).toBe(binary);
+    // The checksum is optional
+    expect(encodeInteroperableAddress(parseInteroperableAddress(`${VITALIK}@eip155:1`))).toBe(binary);
+  });
+
+  test("rejects malformed input", () => {
+    expect(() => parseInteroperableAddress(`${VITALIK}@eip155:1#00000000`)).toThrow(); // bad checksum
+    expect(() => decodeInteroperableAddress("0x0002000001011400")).toThrow(); // unsupported version
+    expect(() => decodeInteroperableAddress(binary + "00")).toThrow(); // trailing bytes
+    expect(() => interopToCaip2("0x0001ffff0000")).toThrow(); // unknown chain type
+  });
+
+  // CAIP-2 eip155 references are decimal chain IDs
+  test("rejects eip155 references that are not decimal chain IDs", () => {
+    for (const reference of ["0x2105", " 8453", "8453 ", "", "-1", "1e3", (1n << 256n).toString()]) {
+      expect(() => chainReferenceToBytes("eip155", reference)).toThrow(`Invalid eip155 chain reference`);
+    }
+    expect(chainReferenceToBytes("eip155", "8453")).toBe("0x2105");
+  });
+});
+
+describe("ERC-7930 registry lookup", () => {
+  let foundry, client: ChainRegistryClient;
+  let chainId: string;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    client = new ChainRegistryClient(chainRegistry.target, foundry.wallets.admin);
+    ({ chainId } = await client.register(BASE_CHAIN_DATA));
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("resolves binary and text interoperable addresses to their chain", async () => {
+    const onBase = caip2ToInterop({ namespace: "eip155", reference: "8453" }, VITALIK);
+    expect((await client.chainDataFromInteroperableAddress(encodeInteroperableAddress(onBase)))?.chainId).toBe(chainId);
+    expect((await client.chainDataFromInteroperableAddress(formatInteroperableAddress(onBase)))?.chainId).toBe(chainId);
+  });
+
+  test("unregistered chains are null", async () => {
+    expect(await client.chainDataFromInteroperableAddress(binary)).toBeNull();
+  });
+});
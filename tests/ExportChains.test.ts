@@ -0,0 +1,122 @@
+/**
+ * @description Tests the registry export (sdk/export.ts) over an indexed local deployment: formats, ordering and a
+ *              content hash that only changes with the registry contents.
+ * @usage       bun test tests/ExportChains.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChainIndexer } from "../sdk/ChainIndexer";
+import { renderExport, toCaip2Listing, toChainlist, toLabelPairs } from "../sdk/export";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+const OP_CHAIN_DATA = {
+  ...BASE_CHAIN_DATA,
+  chainName: "optimism",
+  settlementChainId: 1,
+  rollupContract: "0xbEb5Fc579115071764c7423A4f12eDde41f106Ed",
+  chainReference: "10",
+};
+
+const SOLANA_CHAIN_DATA = {
+  ...BASE_CHAIN_DATA,
+  chainName: "solana",
+  settlementChainId: 0,
+  rollupContract: "0x0000000000000000000000000000000000000001",
+  chainNamespace: "solana",
+  chainReference: "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+};
+
+describe("ExportChains", () => {
+  let foundry, chainRegistry, chainResolver;
+  let baseId: string, opId: string, solanaId: string;
+
+  async function register(data) {
+    const receipt = await foundry.confirm(chainRegistry.register(data));
+    return receipt.logs[0].args.chainId;
+  }
+
+  // A fresh in-memory index every time, so determinism is checked across independent runs
+  function snapshot() {
+    return new ChainIndexer({
+      provider: foundry.provider,
+      registry: chainRegistry.target,
+      resolver: chainResolver.target,
+    }).sync();
+  }
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ chainRegistry } = await deployChainRegistry(foundry));
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+
+    // Registered out of CAIP-2 order on purpose
+    baseId = await register(BASE_CHAIN_DATA);
+    solanaId = await register(SOLANA_CHAIN_DATA);
+    opId = await register(OP_CHAIN_DATA);
+
+    await foundry.confirm(chainResolver.assign("op", opId));
+    await foundry.confirm(chainResolver.assign("base", baseId));
+    await foundry.confirm(chainResolver.assign("optimism", opId));
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("chainlist lists the eip155 chains in chain ID order", async () => {
+    const chainlist = toChainlist(await snapshot());
+    expect(chainlist.map((x) => x.chainId)).toEqual([10, 8453]);
+    expect(chainlist[0]).toEqual({
+      name: "optimism",
+      chainId: 10,
+      shortName: "op",
+      caip2: "eip155:10",
+      erc7785ChainId: opId,
+      ens: "op.cid.eth",
+      parent: { type: "L2", chain: "eip155-1" },
+      rollupContract: OP_CHAIN_DATA.rollupContract,
+    });
+  });
+
+  test("CAIP-2 listing groups chains by namespace", async () => {
+    const listing = toCaip2Listing(await snapshot());
+    expect(Object.keys(listing)).toEqual(["eip155", "solana"]);
+    expect(listing.eip155.map((x) => x.caip2)).toEqual(["eip155:10", "eip155:8453"]);
+    expect(listing.solana[0].chainId).toBe(solanaId);
+  });
+
+  test("label pairs are sorted by label", async () => {
+    expect(toLabelPairs(await snapshot())).toEqual([
+      { label: "base", name: "base.cid.eth", chainId: baseId },
+      { label: "op", name: "op.cid.eth", chainId: opId },
+      { label: "optimism", name: "optimism.cid.eth", chainId: opId },
+    ]);
+  });
+
+  test("ops CSV has one row per chain", async () => {
+    const lines = renderExport(await snapshot())["chains.csv"].trim().split("\n");
+    expect(lines[0]).toBe("chainId,chainName,caip2,settlementChainId,version,rollupContract,coinType,exists,labels");
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toStartWith(`${opId},optimism,eip155:10,1,1,`);
+    expect(lines[1]).toEndWith(",true,op optimism");
+  });
+
+  test("exports are deterministic and hashed", async () => {
+    const first = renderExport(await snapshot());
+    const second = renderExport(await snapshot());
+    expect(second).toEqual(first);
+
+    const index = JSON.parse(first["index.json"]);
+    expect(Object.keys(index.files)).toEqual(["caip2.json", "chainlist.json", "chains.csv", "labels.json"]);
+    expect(index.contentHash).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  test("the content hash changes with the registry", async () => {
+    const before = JSON.parse(renderExport(await snapshot())["index.json"]);
+    await register({ ...OP_CHAIN_DATA, chainName: "arbitrum", chainReference: "42161" });
+    const after = JSON.parse(renderExport(await snapshot())["index.json"]);
+
+    expect(after.contentHash).not.toBe(before.contentHash);
+    // Only the chain files changed
+    expect(after.files["labels.json"]).toBe(before.files["labels.json"]);
+    expect(after.files["chainlist.json"]).not.toBe(before.files["chainlist.json"]);
+  });
+});
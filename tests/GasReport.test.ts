@@ -0,0 +1,106 @@
+/**
+ * @description Tests the gas benchmarks (bench/gas.ts): measuring every metric on a local anvil instance, and the
+ *              budget comparison that fails regressions.
+ * @usage       bun test tests/GasReport.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { allowedIncrease, budgetFor, compareGas, measureGas, GasSnapshot } from "../bench/gas";
+import { launchFoundry } from "./fixtures";
+
+describe("gas measurements", () => {
+  let foundry, snapshot: GasSnapshot;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    snapshot = await measureGas(foundry);
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("measures every method and size", () => {
+    expect(Object.keys(snapshot)).toEqual([
+      "assign/label-128",
+      "assign/label-32",
+      "assign/label-4",
+      "demoRegister/eip155-ref-1",
+      "demoRegister/eip155-ref-10",
+      "demoRegister/eip155-ref-78",
+      "demoRegister/name-128",
+      "demoRegister/name-32",
+      "demoRegister/name-4",
+      "demoRegister/ref-32",
+      "demoRegister/ref-64",
+      "demoRegister/ref-8",
+      "register/eip155-ref-1",
+      "register/eip155-ref-10",
+      "register/eip155-ref-78",
+      "register/name-128",
+      "register/name-32",
+      "register/name-4",
+      "register/ref-32",
+      "register/ref-64",
+      "register/ref-8",
+      "view/chainDataFromCaip2",
+      "view/chainDataFromEnsCoinType",
+      "view/chainDataFromId",
+      "view/chainIdToLabel",
+      "view/resolve-caip2",
+      "view/resolve-chain-id",
+    ]);
+    expect(Object.values(snapshot).every((gas) => gas > 21000)).toBe(true);
+  });
+
+  test("gas grows with name, label and reference length", () => {
+    expect(snapshot["register/name-128"]).toBeGreaterThan(snapshot["register/name-32"]);
+    expect(snapshot["register/name-32"]).toBeGreaterThan(snapshot["register/name-4"]);
+    expect(snapshot["register/eip155-ref-78"]).toBeGreaterThan(snapshot["register/eip155-ref-1"]);
+    expect(snapshot["register/ref-64"]).toBeGreaterThan(snapshot["register/ref-8"]);
+    expect(snapshot["assign/label-128"]).toBeGreaterThan(snapshot["assign/label-4"]);
+  });
+
+  test("repeated runs measure the same gas", async () => {
+    const other = await launchFoundry();
+    try {
+      expect(await measureGas(other)).toEqual(snapshot);
+    } finally {
+      await other.shutdown();
+    }
+  });
+});
+
+describe("gas budgets", () => {
+  const config = {
+    default: { percent: 1 },
+    metrics: {
+      "view/*": { gas: 500 },
+      "register/*": { percent: 2, gas: 100 },
+      "register/name-128": { percent: 5 },
+    },
+  };
+
+  test("picks the exact entry, then the longest pattern, then the default", () => {
+    expect(budgetFor("register/name-128", config)).toEqual({ percent: 5 });
+    expect(budgetFor("register/name-4", config)).toEqual({ percent: 2, gas: 100 });
+    expect(budgetFor("assign/label-4", config)).toEqual({ percent: 1 });
+  });
+
+  test("allows the larger of the percentage and the absolute slack", () => {
+    expect(allowedIncrease(100_000, { percent: 2, gas: 100 })).toBe(2000);
+    expect(allowedIncrease(1_000, { percent: 2, gas: 100 })).toBe(100);
+    expect(allowedIncrease(100_000, {})).toBe(0);
+  });
+
+  test("fails metrics over budget only", () => {
+    const baseline = { "assign/label-4": 50_000, "register/name-4": 100_000, "view/chainDataFromId": 30_000, "old": 1 };
+    const current = { "assign/label-4": 50_600, "register/name-4": 101_500, "view/chainDataFromId": 29_000, "new": 1 };
+    const statuses = Object.fromEntries(compareGas(baseline, current, config).map((x) => [x.metric, x.status]));
+    expect(statuses).toEqual({
+      "assign/label-4": "over",
+      "new": "new",
+      "old": "removed",
+      "register/name-4": "ok",
+      "view/chainDataFromId": "improved",
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @description Tests the registry migration (sdk/migration.ts) used by deploy/MigrateRegistry.ts: reading a source
+ *              deployment, an interrupted migration resumed from the target's state, verification, conflicts and
+ *              replaying the registry lifecycle (supersede and deprecate).
+ * @usage       bun test tests/Migration.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ZeroAddress } from "ethers";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import {
+  MigrationContracts,
+  MigrationSource,
+  executeMigration,
+  planMigration,
+  readMigrationSource,
+  verifyMigration,
+} from "../sdk/migration";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+const OPTIMISM = { ...BASE_CHAIN_DATA, chainName: "optimism", chainReference: "10" };
+const SOLANA = { ...BASE_CHAIN_DATA, chainName: "solana", chainNamespace: "solana", chainReference: "mainnet", coinType: 501 };
+// Claims coinType 501 after solana, so the registry does not map it
+const SOLANA_DEVNET = { ...SOLANA, chainName: "solana-devnet", chainReference: "devnet" };
+// Registered, but chainDataFromId reports it as not existing
+const NO_ROLLUP = { ...BASE_CHAIN_DATA, chainName: "pending", chainReference: "999", rollupContract: ZeroAddress };
+
+describe("registry migration", () => {
+  let foundry;
+  let source: MigrationContracts;
+  let migration: MigrationSource;
+
+  // A fresh target deployment owned by the admin wallet
+  async function deployTarget(): Promise<MigrationContracts> {
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    const chainResolver = await deployChainResolver(foundry, chainRegistry);
+    return {
+      registry: new ChainRegistryClient(chainRegistry.target, foundry.wallets.admin),
+      resolver: new ChainResolverClient(chainResolver.target, foundry.wallets.admin),
+    };
+  }
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    source = await deployTarget();
+
+    for (const data of [BASE_CHAIN_DATA, OPTIMISM, SOLANA, SOLANA_DEVNET, NO_ROLLUP]) {
+      await source.registry.register(data);
+    }
+    // "op" stays the primary label of optimism; "Base" is not normalized but is copied as-is
+    const resolver = source.resolver.contract;
+    await foundry.confirm(resolver.assign("op", computeChainId(OPTIMISM)));
+    await foundry.confirm(resolver.assign("base", computeChainId(BASE_CHAIN_DATA)));
+    await foundry.confirm(resolver.assign("optimism", computeChainId(OPTIMISM)));
+    await foundry.confirm(resolver.assign("Base", computeChainId(BASE_CHAIN_DATA)));
+
+    migration = await readMigrationSource({
+      provider: foundry.provider,
+      registry: source.registry.target,
+      resolver: source.resolver.target,
+    });
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("reads every chain and label from the source in order", () => {
+    expect(migration.chains.map((x) => x.chainName)).toEqual(["base", "optimism", "solana", "solana-devnet", "pending"]);
+    // Stored data: the eip155 coinType is the one the registry derived
+    expect(migration.chains[0].coinType).toBe(2147492101n);
+    expect(migration.chains[4].exists).toBe(false);
+    expect(migration.labels.map((x) => x.label)).toEqual(["op", "base", "optimism", "Base"]);
+  });
+
+  test("an interrupted migration resumes and ends up matching the source", async () => {
+    const target = await deployTarget();
+    const steps = await planMigration(migration, target);
+    expect(steps.map((x) => x.status)).toEqual(Array(9).fill("pending"));
+
+    // Stop after three transactions, as a crash would
+    let sent = 0;
+    const interrupted = executeMigration(steps, migration, target, {
+      onStep: () => {
+        if (++sent === 3) throw new Error("interrupted");
+      },
+    });
+    await expect(interrupted).rejects.toThrow("interrupted");
+
+    const resumed = await planMigration(migration, target);
+    expect(resumed.map((x) => x.status)).toEqual([...Array(3).fill("already-migrated"), ...Array(6).fill("pending")]);
+    expect(await verifyMigration(migration, source, target)).not.toEqual([]);
+
+    await executeMigration(resumed, migration, target);
+    expect(resumed.slice(3).every((x) => x.status === "migrated")).toBe(true);
+
+    expect(await verifyMigration(migration, source, target)).toEqual([]);
+    expect(await target.resolver.labelForChain(computeChainId(OPTIMISM))).toBe("op.cid.eth");
+    expect(await target.registry.chainDataFromEnsCoinType(501)).toMatchObject({ chainName: "solana" });
+
+    // A finished migration has nothing left to send
+    const again = await planMigration(migration, target);
+    expect(again.every((x) => x.status === "already-migrated")).toBe(true);
+  });
+
+  test("refuses to migrate onto a target holding different data", async () => {
+    const target = await deployTarget();
+    await target.registry.register({ ...BASE_CHAIN_DATA, version: "2" });
+    await target.registry.register({ ...SOLANA_DEVNET, chainName: "devnet" });
+    await foundry.confirm(target.resolver.contract.assign("op", computeChainId(BASE_CHAIN_DATA)));
+
+    const steps = await planMigration(migration, target);
+    const errors = Object.fromEntries(
+      steps
+        .filter((x) => x.status === "conflict")
+        .map((x) => [`${x.kind} ${x.kind === "assign" ? x.label : x.chainName}`, x.error])
+    );
+    expect(Object.keys(errors)).toEqual([
+      "register base",
+      "register solana",
+      "register solana-devnet",
+      "assign op",
+      "assign base",
+    ]);
+    expect(errors["register base"]).toContain(`chainName "base" is registered to a different chain`);
+    expect(errors["register solana"]).toContain("coinType 501 is mapped to");
+    expect(errors["register solana-devnet"]).toContain("CAIP-2 solana:devnet is registered to a different chain");
+    expect(errors["assign op"]).toContain(`"op" is assigned to ${computeChainId(BASE_CHAIN_DATA)}`);
+    // base's first label on the target is "op", so "base" could not become its primary label
+    expect(errors["assign base"]).toContain(`already has "op" as label 1`);
+    await expect(executeMigration(steps, migration, target)).rejects.toThrow("Cannot migrate");
+  });
+
+  test("replays supersessions and deprecations", async () => {
+    const lifecycle = await deployTarget();
+    const { chainId: v1 } = await lifecycle.registry.register(BASE_CHAIN_DATA);
+    const { chainId: opId } = await lifecycle.registry.register(OPTIMISM);
+    const { chainId: v2 } = await lifecycle.registry.supersede(v1, { ...BASE_CHAIN_DATA, version: "2" });
+    await lifecycle.registry.deprecate(opId);
+    await foundry.confirm(lifecycle.resolver.contract.assign("base", v1));
+
+    const history = await readMigrationSource({
+      provider: foundry.provider,
+      registry: lifecycle.registry.target,
+      resolver: lifecycle.resolver.target,
+    });
+    expect(history.chains.map((x) => [x.chainId, x.supersedes, x.deprecated])).toEqual([
+      [v1, null, false],
+      [opId, null, true],
+      [v2, v1, false],
+    ]);
+
+    // Interrupted right after the supersede
+    const target = await deployTarget();
+    const steps = await planMigration(history, target);
+    expect(steps.map((x) => x.kind)).toEqual(["register", "register", "register", "deprecate", "assign"]);
+    let sent = 0;
+    const interrupted = executeMigration(steps, history, target, {
+      onStep: () => {
+        if (++sent === 3) throw new Error("interrupted");
+      },
+    });
+    await expect(interrupted).rejects.toThrow("interrupted");
+
+    const resumed = await planMigration(history, target);
+    expect(resumed.map((x) => x.status)).toEqual([...Array(3).fill("already-migrated"), "pending", "pending"]);
+    await executeMigration(resumed, history, target);
+
+    expect(await verifyMigration(history, lifecycle, target)).toEqual([]);
+    expect(await target.registry.chainStatus(opId)).toBe("deprecated");
+    expect((await target.registry.chainHistory(v2)).map((x) => x.chainId)).toEqual([v1, v2]);
+  });
+
+  test("refuses a target resolver that reads from another registry", async () => {
+    const target = await deployTarget();
+    await expect(planMigration(migration, { ...target, registry: source.registry })).rejects.toThrow(
+      "not the target ChainRegistry"
+    );
+  });
+});
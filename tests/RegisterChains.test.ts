@@ -0,0 +1,100 @@
+/**
+ * @description Tests manifest parsing/validation (sdk/manifest.ts) and registration planning
+ *              (sdk/registration.ts) used by deploy/RegisterChains.ts, including idempotent re-runs.
+ * @usage       bun test tests/RegisterChains.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import { parseCsvManifest, parseJsonManifest, validateManifest } from "../sdk/manifest";
+import { planRegistrations } from "../sdk/registration";
+import { deployChainRegistry, launchFoundry } from "./fixtures";
+
+const CSV = `chainName,settlementChainId,version,rollupContract,chainNamespace,chainReference,coinType
+base,1,1,0x49f53e41452C74589E85cA1677426Ba426459e85,eip155,8453,
+optimism,1,1,0xbEb5Fc579115071764c7423A4f12eDde41f106Ed,eip155,10,0
+"solana, mainnet",0,1,0x0000000000000000000000000000000000000001,solana,5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp,501
+`;
+
+const entries = parseCsvManifest(CSV);
+
+describe("manifest", () => {
+  test("parses CSV and JSON", () => {
+    expect(entries).toHaveLength(3);
+    expect(entries[2].chainName).toBe("solana, mainnet"); // quoted CSV fields
+    expect(parseJsonManifest(JSON.stringify({ chains: entries }))).toEqual(entries);
+  });
+
+  test("rejects malformed JSON rows as manifest errors", () => {
+    expect(() => parseJsonManifest("[null]")).toThrow("Manifest entry 0 must be an object");
+    const nested = JSON.stringify([entries[0], { ...entries[1], settlementChainId: { value: 1 } }]);
+    expect(() => parseJsonManifest(nested)).toThrow(
+      "Manifest entry 1: settlementChainId must be a number or a decimal string"
+    );
+    const named = JSON.stringify([{ ...entries[1], chainName: ["optimism"] }]);
+    expect(() => parseJsonManifest(named)).toThrow("Manifest entry 0: chainName must be a string");
+  });
+
+  test("validates entries offline", () => {
+    const [emptyName, badRollup, hexReference, badNamespace, valid, duplicate] = validateManifest([
+      { ...entries[0], chainName: "" },
+      { ...entries[0], rollupContract: "0x1234" },
+      { ...entries[0], chainName: "base-hex", chainReference: "0x2105" },
+      { ...entries[0], chainName: "BASE", chainNamespace: "EIP155" },
+      entries[1],
+      { ...entries[1], chainName: "op-again" },
+    ]);
+    expect(emptyName.errors.some((x) => x.includes("chainName"))).toBe(true);
+    expect(badRollup.errors.some((x) => x.includes("rollupContract"))).toBe(true);
+    expect(hexReference.errors.some((x) => x.includes("parseUint"))).toBe(true);
+    expect(badNamespace.errors.some((x) => x.includes("namespace"))).toBe(true);
+    expect(valid.errors).toEqual([]);
+    expect(duplicate.errors.some((x) => x.includes("duplicates"))).toBe(true);
+  });
+});
+
+describe("registration planning", () => {
+  let foundry, client: ChainRegistryClient;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    const { chainRegistry } = await deployChainRegistry(foundry);
+    client = new ChainRegistryClient(chainRegistry.target, foundry.wallets.admin);
+
+    // Base is already registered
+    await client.register(entries[0]);
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  test("classifies entries against the live registry", async () => {
+    const plan = await planRegistrations(client, [
+      ...entries,
+      // Same name as base with different data
+      { ...entries[1], chainName: "base", chainReference: "84532" },
+      // Same CAIP-2 as optimism with a different name
+      { ...entries[1], chainName: "op-mainnet" },
+    ]);
+
+    expect(plan.map((x) => x.status)).toEqual(["registered", "register", "register", "invalid", "invalid"]);
+    for (const entry of plan.slice(0, 3)) {
+      expect(entry.chainId).toBe(computeChainId(entry.data));
+    }
+  });
+
+  test("detects collisions with the live registry", async () => {
+    const [conflict] = await planRegistrations(client, [{ ...entries[1], chainName: "base" }]);
+    expect(conflict.status).toBe("conflict");
+  });
+
+  // Submit what is missing, then re-plan: everything is registered and nothing is left to do
+  test("re-running a manifest is a no-op", async () => {
+    const plan = await planRegistrations(client, entries);
+    for (const entry of plan.filter((x) => x.status === "register")) {
+      await client.register(entry.data);
+    }
+    const rerun = await planRegistrations(client, entries);
+    expect(rerun.every((x) => x.status === "registered")).toBe(true);
+  });
+});
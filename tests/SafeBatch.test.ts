@@ -0,0 +1,193 @@
+/**
+ * @description Tests the Safe Transaction Builder batch export (sdk/safe.ts): planning operations against live
+ *              contracts, the batch file format, and simulating the batch from an impersonated Safe.
+ * @usage       bun test tests/SafeBatch.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Wallet, toBeHex } from "ethers";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { ChainResolverClient } from "../sdk/ChainResolverClient";
+import { computeChainId } from "../sdk/ERC7785ChainId";
+import {
+  SafeBatchFile,
+  buildSafeBatch,
+  describeTransaction,
+  loadSafeOperations,
+  planSafeOperations,
+  simulateSafeBatch,
+} from "../sdk/safe";
+import { BASE_CHAIN_DATA, deployChainRegistry, deployChainResolver, launchFoundry } from "./fixtures";
+
+const OP_CHAIN_DATA = {
+  ...BASE_CHAIN_DATA,
+  chainName: "optimism",
+  rollupContract: "0xdfe97868233d1aa22e815a266982f2cf17685a27",
+  chainReference: "10",
+};
+
+describe("Safe batches", () => {
+  let foundry, chainRegistry, chainResolver;
+  let registry: ChainRegistryClient, resolver: ChainResolverClient;
+  let targets;
+  const safe = Wallet.createRandom().address;
+  const newOwner = Wallet.createRandom().address;
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    ({ chainRegistry } = await deployChainRegistry(foundry));
+    chainResolver = await deployChainResolver(foundry, chainRegistry);
+    registry = new ChainRegistryClient(chainRegistry.target, foundry.provider);
+    resolver = new ChainResolverClient(chainResolver.target, foundry.provider);
+    targets = { registry: chainRegistry.target, resolver: chainResolver.target };
+
+    // OP is already registered; from here on the Safe owns both contracts
+    await foundry.confirm(chainRegistry.register(OP_CHAIN_DATA));
+    await foundry.confirm(chainRegistry.transferOwnership(safe));
+    await foundry.confirm(chainResolver.transferOwnership(safe));
+  });
+
+  afterAll(() => foundry?.shutdown());
+
+  const spec = () => ({
+    register: [BASE_CHAIN_DATA, OP_CHAIN_DATA],
+    assign: [
+      { label: "base", caip2: "eip155:8453" },
+      { label: "op", caip2: "eip155:10" },
+    ],
+    transferOwnership: { ChainResolver: newOwner },
+  });
+
+  async function batchFor(operations, owner = safe): Promise<SafeBatchFile> {
+    return buildSafeBatch(operations, targets, { safe: owner, chainId: 31337, createdAt: 0 });
+  }
+
+  test("plans registrations, assignments by predicted chain ID and ownership transfers", async () => {
+    const plan = await planSafeOperations(spec(), registry, resolver);
+
+    expect(plan.operations).toEqual([
+      { type: "register", data: BASE_CHAIN_DATA, chainId: computeChainId(BASE_CHAIN_DATA) },
+      { type: "assign", label: "base", chainId: computeChainId(BASE_CHAIN_DATA) },
+      { type: "assign", label: "op", chainId: computeChainId(OP_CHAIN_DATA) },
+      { type: "transferOwnership", contract: "ChainResolver", newOwner },
+    ]);
+    expect(plan.skipped).toEqual([`optimism (eip155:10) is already registered as ${computeChainId(OP_CHAIN_DATA)}`]);
+  });
+
+  test("writes a Transaction Builder batch with decoded descriptions", async () => {
+    const { operations } = await planSafeOperations(spec(), registry, resolver);
+    const batch = await batchFor(operations);
+
+    expect(batch.version).toBe("1.0");
+    expect(batch.chainId).toBe("31337");
+    expect(batch.meta.createdFromSafeAddress).toBe(safe);
+    expect(batch.transactions.map((x) => x.to)).toEqual([
+      chainRegistry.target,
+      chainResolver.target,
+      chainResolver.target,
+      chainResolver.target,
+    ]);
+
+    const [register, assign] = batch.transactions;
+    expect(register.contractMethod.name).toBe("register");
+    expect(register.contractMethod.inputs[0].type).toBe("tuple");
+    expect(JSON.parse(register.contractInputsValues._chainData)).toEqual([
+      "base",
+      "8453",
+      "1",
+      BASE_CHAIN_DATA.rollupContract,
+      "eip155",
+      "8453",
+      "0",
+    ]);
+    expect(assign.contractInputsValues).toEqual({ label: "base", chainId: computeChainId(BASE_CHAIN_DATA) });
+    expect(register.data).toBe(chainRegistry.interface.encodeFunctionData("register", [BASE_CHAIN_DATA]));
+
+    expect(batch.meta.description.split("\n")).toEqual([
+      `1. ChainRegistry.register base (eip155:8453) -> chain ID ${computeChainId(BASE_CHAIN_DATA)}`,
+      `2. ChainResolver.assign base.cid.eth -> chain ID ${computeChainId(BASE_CHAIN_DATA)}`,
+      `3. ChainResolver.assign op.cid.eth -> chain ID ${computeChainId(OP_CHAIN_DATA)}`,
+      `4. ChainResolver.transferOwnership -> ${newOwner}`,
+    ]);
+  });
+
+  test("ownership transfers are described by contract name whatever the case of the targets", () => {
+    const data = chainRegistry.interface.encodeFunctionData("transferOwnership", [newOwner]);
+    const lowercase = { registry: targets.registry.toLowerCase(), resolver: targets.resolver.toLowerCase() };
+    expect(describeTransaction({ to: chainResolver.target, data }, lowercase)).toBe(
+      `ChainResolver.transferOwnership -> ${newOwner}`
+    );
+    expect(describeTransaction({ to: lowercase.registry, data }, targets)).toBe(
+      `ChainRegistry.transferOwnership -> ${newOwner}`
+    );
+  });
+
+  test("rejects operations that would revert", async () => {
+    const invalid = planSafeOperations(
+      {
+        assign: [
+          { label: "Base", caip2: "eip155:8453" },
+          { label: "arb", caip2: "eip155:42161" },
+        ],
+      },
+      registry,
+      resolver
+    );
+    await expect(invalid).rejects.toThrow('assign "Base"');
+    await expect(invalid).rejects.toThrow("eip155:42161 is not registered");
+
+    const malformed = planSafeOperations({ assign: [{ label: "base", chainId: "8453" }] }, registry, resolver);
+    await expect(malformed).rejects.toThrow('assign "base": chainId "8453" is not a 7785 chain ID (32-byte hex)');
+  });
+
+  test("a batch from a Safe that is not the owner reverts in simulation", async () => {
+    const { operations } = await planSafeOperations(spec(), registry, resolver);
+    const results = await simulateSafeBatch(foundry.provider, await batchFor(operations, newOwner));
+    expect(results.every((x) => !x.ok)).toBe(true);
+    expect(results[0].error).toBe("OwnableUnauthorizedAccount");
+  });
+
+  test("simulates the batch from the Safe", async () => {
+    const { operations } = await planSafeOperations(spec(), registry, resolver);
+    const batch = await batchFor(operations);
+
+    // A Safe that can pay for the batch keeps its own balance (less the gas it spends)
+    await foundry.provider.send("anvil_setBalance", [safe, toBeHex(100n * 10n ** 18n)]);
+    const results = await simulateSafeBatch(foundry.provider, batch, targets);
+
+    expect(results.map((x) => x.ok)).toEqual([true, true, true, true]);
+    // Described as in the export
+    expect(results.map((x) => x.description)).toEqual(batch.meta.description.split("\n").map((x) => x.slice(3)));
+    expect(await foundry.provider.getBalance(safe)).toBeGreaterThan(99n * 10n ** 18n);
+    expect(results[0].description).toContain(computeChainId(BASE_CHAIN_DATA));
+
+    // The simulation ran on this node, so the batch is now applied
+    expect(await resolver.chainIdForLabel("base")).toBe(computeChainId(BASE_CHAIN_DATA));
+    expect(await chainResolver.owner()).toBe(newOwner);
+
+    // Running it again reverts on the registration that is now taken
+    const again = await simulateSafeBatch(foundry.provider, batch);
+    expect(again[0]).toMatchObject({ ok: false, error: "ChainNameAlreadyRegistered" });
+  });
+
+  test("re-planning after execution skips everything already done", async () => {
+    const plan = await planSafeOperations({ ...spec(), transferOwnership: {} }, registry, resolver);
+    expect(plan.operations).toEqual([]);
+    expect(plan.skipped).toHaveLength(4);
+  });
+
+  test("loads an operations file with a manifest next to it", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "safe-ops-"));
+    try {
+      await writeFile(path.join(dir, "chains.json"), JSON.stringify([BASE_CHAIN_DATA]));
+      await writeFile(path.join(dir, "ops.json"), JSON.stringify({ manifest: "chains.json", assign: [] }));
+      const loaded = await loadSafeOperations(path.join(dir, "ops.json"));
+      expect(loaded.manifest).toBe(path.join(dir, "chains.json"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import {ENSRegistry} from "./ENSRegistry.sol";
+
+/**
+ * @title  Minimal NameWrapper (test fixture)
+ * @notice Just enough of the ENS NameWrapper for tests to wrap a name in the local ENS registry and manage it
+ *         (subnodes, resolver) through the wrapper, the way a wrapped cid.eth would be managed on mainnet
+ * @dev    Function signatures match NameWrapper.sol from ens-contracts. There is no ERC-1155 token, no fuses and no
+ *         expiry, and wrap() accepts any name (mainnet wraps .eth second level names with wrapETH2LD instead)
+ */
+contract NameWrapper {
+
+    ENSRegistry public immutable ens;
+
+    // Wrapped owner per node (the ERC-1155 token owner on mainnet)
+    mapping(uint256 => address) owners;
+    mapping(address => mapping(address => bool)) operators;
+
+    event NameWrapped(bytes32 indexed node, bytes name, address owner, uint32 fuses, uint64 expiry);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+
+    error Unauthorised(bytes32 node, address addr);
+    error NotApproved(bytes32 node);
+
+    modifier onlyTokenOwner(bytes32 node) {
+        if (!canModifyName(node, msg.sender)) {
+            revert Unauthorised(node, msg.sender);
+        }
+        _;
+    }
+
+    constructor(ENSRegistry _ens) {
+        ens = _ens;
+    }
+
+    /// @notice Wraps a name the caller owns in the registry; the wrapper must be an approved operator of the caller
+    /// @param name The DNS-encoded name
+    function wrap(bytes calldata name, address wrappedOwner, address resolver) external {
+        bytes32 node = _namehash(name, 0);
+        address registrant = ens.owner(node);
+        if (registrant != msg.sender && !ens.isApprovedForAll(registrant, msg.sender)) {
+            revert Unauthorised(node, msg.sender);
+        }
+        if (!ens.isApprovedForAll(registrant, address(this))) {
+            revert NotApproved(node);
+        }
+
+        if (resolver != address(0)) {
+            ens.setResolver(node, resolver);
+        }
+        ens.setOwner(node, address(this));
+        owners[uint256(node)] = wrappedOwner;
+        emit NameWrapped(node, name, wrappedOwner, 0, 0);
+    }
+
+    function setSubnodeOwner(bytes32 parentNode, string calldata label, address owner, uint32 fuses, uint64 expiry)
+        public
+        onlyTokenOwner(parentNode)
+        returns (bytes32 node)
+    {
+        node = ens.setSubnodeOwner(parentNode, keccak256(bytes(label)), address(this));
+        owners[uint256(node)] = owner;
+        emit NameWrapped(node, "", owner, fuses, expiry);
+    }
+
+    function setSubnodeRecord(
+        bytes32 parentNode,
+        string calldata label,
+        address owner,
+        address resolver,
+        uint64 ttl,
+        uint32 fuses,
+        uint64 expiry
+    ) external returns (bytes32 node) {
+        node = setSubnodeOwner(parentNode, label, owner, fuses, expiry);
+        ens.setResolver(node, resolver);
+        ens.setTTL(node, ttl);
+    }
+
+    function setResolver(bytes32 node, address resolver) external onlyTokenOwner(node) {
+        ens.setResolver(node, resolver);
+    }
+
+    function setApprovalForAll(address operator, bool approved) external {
+        operators[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    function ownerOf(uint256 id) external view returns (address) {
+        return owners[id];
+    }
+
+    function isWrapped(bytes32 node) external view returns (bool) {
+        return ens.owner(node) == address(this) && owners[uint256(node)] != address(0);
+    }
+
+    function isApprovedForAll(address owner, address operator) external view returns (bool) {
+        return operators[owner][operator];
+    }
+
+    function canModifyName(bytes32 node, address addr) public view returns (bool) {
+        address owner = owners[uint256(node)];
+        return owner != address(0) && (owner == addr || operators[owner][addr]);
+    }
+
+    // Namehash of a DNS-encoded name, starting at `offset`
+    function _namehash(bytes calldata name, uint256 offset) internal pure returns (bytes32) {
+        uint256 length = uint8(name[offset]);
+        if (length == 0) {
+            return bytes32(0);
+        }
+        bytes32 label = keccak256(name[offset + 1:offset + 1 + length]);
+        return keccak256(abi.encodePacked(_namehash(name, offset + 1 + length), label));
+    }
+}
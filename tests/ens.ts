@@ -0,0 +1,130 @@
+/**
+ * @description Local ENS fixture: deploys a minimal ENS registry (tests/contracts/ENSRegistry.sol) and optionally a
+ *              minimal NameWrapper (tests/contracts/NameWrapper.sol) on the local anvil instance, and builds name
+ *              hierarchies the legitimate way (setSubnodeOwner/setResolver, through the wrapper for wrapped names),
+ *              so resolution tests need no fork and no storage patching.
+ * @usage       const { ens, provider } = await deployENS(foundry);
+ *              const node = await setResolver(foundry, ens, "cid.eth", chainResolver.target);
+ */
+
+import { Contract, EnsPlugin, JsonRpcProvider, Network, Signer, ZeroAddress, ZeroHash, dnsEncode, id, namehash } from "ethers";
+
+export type ENSNameOptions = {
+  // Manages wrapped names; needed whenever a name on the path is wrapped
+  wrapper?: Contract;
+  // Acts as the owner of the parent nodes (defaults to the admin wallet)
+  signer?: Signer;
+};
+
+// Deploys the ENS registry (owned by the admin wallet) and returns an ENS-aware provider
+// The provider is what you call getResolver()/resolveName() on
+export async function deployENS(foundry) {
+  const ens: Contract = await foundry.deploy({
+    file: "ENSRegistry",
+    args: [],
+  });
+
+  // ethers only knows the ENS registry address for public networks, so we attach ours
+  const { chainId } = await foundry.provider.getNetwork();
+  const network = new Network("anvil", chainId);
+  network.attachPlugin(new EnsPlugin(ens.target as string, chainId));
+
+  const provider = new JsonRpcProvider(foundry.provider._getConnection().url, network, {
+    staticNetwork: network,
+  });
+
+  return { ens, provider };
+}
+
+// Deploys a NameWrapper over the registry
+export async function deployNameWrapper(foundry, ens: Contract): Promise<Contract> {
+  return foundry.deploy({
+    file: "NameWrapper",
+    args: [ens.target],
+  });
+}
+
+// Contract.connect loses the ABI typing
+function connected(contract: Contract, signer: Signer): Contract {
+  return contract.connect(signer) as Contract;
+}
+
+// Whether the registry owner of a node is the wrapper
+async function isWrapped(ens: Contract, node: string, wrapper?: Contract): Promise<boolean> {
+  return !!wrapper && (await ens.owner(node)) === wrapper.target;
+}
+
+// Creates (or takes over) `label` under `parent`, owned by `owner`
+// Wrapped parents are managed through the wrapper, and the subnode is then wrapped too
+// Returns the namehash of the subnode
+export async function createSubnode(
+  foundry,
+  ens: Contract,
+  parent: string,
+  label: string,
+  owner: string,
+  options: ENSNameOptions = {}
+): Promise<string> {
+  const signer = options.signer ?? foundry.wallets.admin;
+  const parentNode = parent ? namehash(parent) : ZeroHash;
+
+  if (await isWrapped(ens, parentNode, options.wrapper)) {
+    await foundry.confirm(connected(options.wrapper!, signer).setSubnodeOwner(parentNode, label, owner, 0, 0));
+  } else {
+    await foundry.confirm(connected(ens, signer).setSubnodeOwner(parentNode, id(label), owner));
+  }
+
+  return namehash(parent ? `${label}.${parent}` : label);
+}
+
+// Creates every node of a name that does not exist yet (e.g. "cid.eth" creates "eth" then "cid.eth"), owned by
+// the admin wallet. Existing nodes - including wrapped ones - are left with their owner.
+// Returns the namehash of the full name
+export async function createName(foundry, ens: Contract, name: string, options: ENSNameOptions = {}): Promise<string> {
+  const owner = await (options.signer ?? foundry.wallets.admin).getAddress();
+
+  let current = "";
+  for (const label of name.split(".").reverse()) {
+    const next = current ? `${label}.${current}` : label;
+    if (!(await ens.recordExists(namehash(next)))) {
+      await createSubnode(foundry, ens, current, label, owner, options);
+    }
+    current = next;
+  }
+
+  return namehash(name);
+}
+
+// Wraps an existing name owned by the signer (admin by default), leaving the signer as the wrapped owner
+export async function wrapName(foundry, ens: Contract, wrapper: Contract, name: string, signer?: Signer) {
+  signer ??= foundry.wallets.admin;
+  await foundry.confirm(connected(ens, signer).setApprovalForAll(wrapper.target, true));
+  await foundry.confirm(connected(wrapper, signer).wrap(dnsEncode(name), await signer.getAddress(), ZeroAddress));
+  return namehash(name);
+}
+
+// Points any name at a resolver, creating the name first if it does not exist
+// Wrapped names are set through the wrapper. The result is checked through ens.resolver(node).
+// Returns the namehash of the name
+export async function setResolver(
+  foundry,
+  ens: Contract,
+  name: string,
+  resolver: string,
+  options: ENSNameOptions = {}
+): Promise<string> {
+  const signer = options.signer ?? foundry.wallets.admin;
+  const node = await createName(foundry, ens, name, options);
+
+  if (await isWrapped(ens, node, options.wrapper)) {
+    await foundry.confirm(connected(options.wrapper!, signer).setResolver(node, resolver));
+  } else {
+    await foundry.confirm(connected(ens, signer).setResolver(node, resolver));
+  }
+
+  const actual: string = await ens.resolver(node);
+  if (actual.toLowerCase() !== resolver.toLowerCase()) {
+    throw new Error(`Resolver of ${name} is ${actual}, expected ${resolver}`);
+  }
+  return node;
+}
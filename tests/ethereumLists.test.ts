@@ -0,0 +1,107 @@
+/**
+ * @description Tests the ethereum-lists/chains importer (sdk/ethereumLists.ts) and that its output is a manifest
+ *              sdk/manifest.ts accepts.
+ * @usage       bun test tests/ethereumLists.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  EthereumListsChain,
+  importEthereumListsChain,
+  loadEthereumListsChains,
+  suggestLabel,
+} from "../sdk/ethereumLists";
+import { parseJsonManifest, validateManifest } from "../sdk/manifest";
+
+// Trimmed copies of ethereum-lists/chains _data/chains files
+const BASE: EthereumListsChain = {
+  name: "Base",
+  shortName: "base",
+  chainId: 8453,
+  parent: { type: "L2", chain: "eip155-1", bridges: [{ url: "https://bridge.base.org/deposit" }] },
+};
+
+const OP: EthereumListsChain = {
+  name: "OP Mainnet",
+  shortName: "oeth",
+  chainId: 10,
+  parent: {
+    type: "L2",
+    chain: "eip155-1",
+    bridges: [{ url: "https://app.optimism.io/bridge", address: "0xbeb5fc579115071764c7423a4f12edde41f106ed" }],
+  },
+};
+
+const ETHEREUM: EthereumListsChain = { name: "Ethereum Mainnet", shortName: "eth", chainId: 1 };
+
+describe("ethereum-lists importer", () => {
+  test("suggests normalized labels", () => {
+    expect(suggestLabel(BASE)).toBe("base");
+    expect(suggestLabel(OP)).toBe("op");
+    expect(suggestLabel({ name: "Arbitrum One", chainId: 42161 })).toBe("arbitrum-one");
+    expect(suggestLabel({ name: "Ethereum Mainnet", chainId: 1 })).toBe("ethereum");
+    expect(suggestLabel({ name: "???", shortName: "x1", chainId: 196 })).toBe("x1");
+  });
+
+  test("derives the eip155 fields and settlement chain", () => {
+    const base = importEthereumListsChain(BASE);
+    expect(base).toMatchObject({
+      chainName: "base",
+      label: "base",
+      settlementChainId: "1",
+      chainNamespace: "eip155",
+      chainReference: "8453",
+      coinType: 0,
+      source: "eip155-8453.json",
+    });
+  });
+
+  test("takes the rollup contract from the bridge info where present", () => {
+    const op = importEthereumListsChain(OP);
+    expect(op.rollupContract).toBe("0xbEb5Fc579115071764c7423A4f12eDde41f106Ed");
+    expect(op.flags).toEqual(['version defaulted to "1"']);
+  });
+
+  test("flags fields that cannot be derived", () => {
+    const base = importEthereumListsChain(BASE);
+    expect(base.rollupContract).toBe("");
+    expect(base.flags).toContain("no bridge contract address: set rollupContract");
+
+    const ethereum = importEthereumListsChain(ETHEREUM);
+    expect(ethereum.settlementChainId).toBe("");
+    expect(ethereum.flags).toContain("no parent chain: set settlementChainId");
+
+    const deprecated = importEthereumListsChain({ ...OP, status: "deprecated" });
+    expect(deprecated.flags).toContain("chain is marked deprecated in ethereum-lists");
+  });
+
+  test("the output is a manifest RegisterChains accepts", () => {
+    const manifest = JSON.stringify({ chains: [OP, BASE].map((x) => importEthereumListsChain(x)) });
+    const entries = parseJsonManifest(manifest);
+    const [op, base] = validateManifest(entries);
+    expect(op.errors).toEqual([]);
+    // Incomplete entries stay invalid until filled in
+    expect(base.errors.some((x) => x.includes("rollupContract"))).toBe(true);
+  });
+
+  describe("loadEthereumListsChains", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "ethereum-lists-"));
+      await writeFile(path.join(dir, "eip155-8453.json"), JSON.stringify(BASE));
+      await writeFile(path.join(dir, "eip155-10.json"), JSON.stringify(OP));
+      await writeFile(path.join(dir, "README.md"), "not a chain");
+    });
+
+    afterAll(() => rm(dir, { recursive: true, force: true }));
+
+    test("reads every chain file in a directory", async () => {
+      const chains = await loadEthereumListsChains([dir]);
+      expect(chains.map((x) => x.source)).toEqual(["eip155-10.json", "eip155-8453.json"]);
+    });
+  });
+});
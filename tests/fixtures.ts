@@ -0,0 +1,83 @@
+/**
+ * @description Shared deploy fixtures for the test suite
+ */
+
+import { Foundry } from "@adraffy/blocksmith";
+import { Interface, id } from "ethers";
+import { resolveNetwork } from "../deploy/networks";
+import { ChainData } from "../sdk/types";
+
+// Launches a plain local anvil instance - no fork, no outside services
+// The chain ID comes from the `local` network profile the deploy scripts use (deploy/networks.ts)
+export async function launchFoundry() {
+  const local = await resolveNetwork("local");
+  return Foundry.launch({
+    chain: local.chainId,
+    procLog: false,
+    infoLog: false,
+  });
+}
+
+// Deploys the three libraries the ChainRegistry links against
+export async function deployLibraries(foundry) {
+  const CAIP2 = await foundry.deploy({ file: "CAIP2", args: [] });
+  const ENSCoinType = await foundry.deploy({ file: "ENSCoinType", args: [] });
+  const ERC7785ChainId = await foundry.deploy({ file: "ERC7785ChainId", args: [] });
+  return { CAIP2, ENSCoinType, ERC7785ChainId };
+}
+
+// Deploys the libraries and a ChainRegistry linked against them (owned by the admin wallet)
+export async function deployChainRegistry(foundry) {
+  const libs = await deployLibraries(foundry);
+  const chainRegistry = await foundry.deploy({
+    file: "ChainRegistry",
+    args: [],
+    libs,
+  });
+  return { ...libs, chainRegistry };
+}
+
+// Library functions taking structs are selected by the struct name, not the tuple signature,
+// so we encode the arguments via the tuple ABI and swap in the library selector
+const COMPUTE_CHAIN_ID_SELECTOR = id("computeChainId(ChainData)").slice(0, 10);
+const TUPLE_ABI = new Interface([
+  "function computeChainId((string,uint256,string,address,string,string,uint256))",
+]);
+
+// Calls the deployed ERC7785ChainId library's computeChainId
+export async function onchainChainId(foundry, library, data: ChainData): Promise<string> {
+  const encodedArgs = TUPLE_ABI.encodeFunctionData("computeChainId", [
+    [
+      data.chainName,
+      data.settlementChainId,
+      data.version,
+      data.rollupContract,
+      data.chainNamespace,
+      data.chainReference,
+      data.coinType,
+    ],
+  ]).slice(10);
+  return foundry.provider.call({
+    to: library.target,
+    data: COMPUTE_CHAIN_ID_SELECTOR + encodedArgs,
+  });
+}
+
+// Deploys a ChainResolver backed by the given ChainRegistry (owned by the admin wallet)
+export async function deployChainResolver(foundry, chainRegistry) {
+  return foundry.deploy({
+    file: "ChainResolver",
+    args: [chainRegistry.target],
+  });
+}
+
+// Base chain data as used throughout the tests
+export const BASE_CHAIN_DATA = {
+  chainName: "base",
+  settlementChainId: 8453,
+  version: "1",
+  rollupContract: "0x49f53e41452C74589E85cA1677426Ba426459e85",
+  chainNamespace: "eip155",
+  chainReference: "8453",
+  coinType: 0,
+};
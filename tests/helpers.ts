@@ -4,7 +4,9 @@
  * @date        2025-08-22
  */
 
-import { BigNumberish, BytesLike, concat, keccak256 } from "ethers";
+import { expect } from "bun:test";
+import { BigNumberish, BytesLike, Interface, concat, keccak256 } from "ethers";
+import { revertName } from "../sdk/errors";
 
 export function toPaddedHex(x: BigNumberish | boolean, width = 32) {
     const i = x === '0x' ? 0n : BigInt.asUintN(width << 3, BigInt(x));
@@ -25,4 +27,21 @@ export function pow256(base: bigint, exp: bigint) {
         base = BigInt.asUintN(256, base * base);
     }
     return res;
-}
\ No newline at end of file
+}
+
+// Expects a transaction or call to revert with a specific custom error from any contract
+// The error is decoded with the interface of the contract that is expected to revert
+export async function expectRevert(
+    call: Promise<unknown>,
+    contract: { interface: Interface },
+    errorName: string
+) {
+    let error: unknown;
+    try {
+        await call;
+    } catch (err) {
+        error = err;
+    }
+    if (!error) throw new Error(`Expected revert with ${errorName}, but the call succeeded`);
+    expect(revertName(contract.interface, error)).toBe(errorName);
+}
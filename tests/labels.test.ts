@@ -0,0 +1,61 @@
+/**
+ * @description Tests ENSIP-15 label validation (sdk/labels.ts).
+ * @usage       bun test tests/labels.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { namehash } from "ethers";
+import { InvalidLabelError, assertNormalizedLabel, checkLabel } from "../sdk/labels";
+
+describe("checkLabel", () => {
+  test("accepts normalized labels and shows the name and namehash", () => {
+    const check = checkLabel("base");
+    expect(check.errors).toEqual([]);
+    expect(check.normalized).toBe("base");
+    expect(check.name).toBe("base.cid.eth");
+    expect(check.node).toBe(namehash("base.cid.eth"));
+  });
+
+  test("accepts normalized emoji labels", () => {
+    expect(checkLabel("💩").errors).toEqual([]);
+  });
+
+  test("refuses labels that differ from their normalized form", () => {
+    const check = checkLabel("Base");
+    expect(check.normalized).toBe("base");
+    expect(check.node).toBe(namehash("base.cid.eth"));
+    expect(check.errors).toEqual([`label differs from its normalized form "base"`]);
+  });
+
+  test("rejects disallowed characters", () => {
+    const check = checkLabel("base ");
+    expect(check.normalized).toBeNull();
+    expect(check.node).toBeNull();
+    expect(check.errors[0]).toContain("disallowed character");
+  });
+
+  test("rejects confusable mixed-script labels", () => {
+    // Cyrillic "а" (U+0430) in place of Latin "a"
+    expect(checkLabel("bаse").errors[0]).toContain("illegal mixture");
+  });
+
+  test("rejects invisible characters", () => {
+    expect(checkLabel("ba‍se").errors[0]).toContain("disallowed character");
+  });
+
+  test("rejects empty labels and full names", () => {
+    expect(checkLabel("").errors).toEqual(["label is empty"]);
+    expect(checkLabel("base.cid.eth").errors[0]).toContain("single label");
+  });
+
+  test("assertNormalizedLabel throws InvalidLabelError with the check", () => {
+    expect(assertNormalizedLabel("base").name).toBe("base.cid.eth");
+    try {
+      assertNormalizedLabel("Base");
+      throw new Error("expected InvalidLabelError");
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidLabelError);
+      expect((err as InvalidLabelError).check.normalized).toBe("base");
+    }
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @description Tests the network configuration (deploy/networks.ts): the checked-in networks.json, the built-in
+ *              local profile, env interpolation, --rpc= overrides and signer sources.
+ * @usage       bun test tests/networks.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  DEFAULT_NETWORKS_FILE,
+  LOCAL_NETWORK,
+  interpolateEnv,
+  loadNetworks,
+  resolveNetwork,
+  signerPrivateKey,
+} from "../deploy/networks";
+import { launchFoundry } from "./fixtures";
+
+describe("networks", () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "networks-"));
+    file = path.join(dir, "networks.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        devnet: {
+          chainId: 1337,
+          rpc: "https://${DEVNET_HOST}/rpc",
+          verifier: { type: "blockscout", url: "https://${DEVNET_HOST}/api", apiKey: "${DEVNET_VERIFIER_KEY}" },
+          signer: { type: "env", variable: "DEVNET_DEPLOYER" },
+        },
+        "op-sepolia": { chainId: 11155420, rpc: "https://sepolia.optimism.io" },
+      })
+    );
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  test("the checked-in config has mainnet, sepolia and local", async () => {
+    const networks = await loadNetworks(DEFAULT_NETWORKS_FILE);
+    expect([...networks.keys()].sort()).toEqual(["local", "mainnet", "sepolia"]);
+    expect(networks.get("sepolia")!.chainId).toBe(11155111);
+  });
+
+  test("the local profile points at anvil with its default key", async () => {
+    const local = await resolveNetwork("local", { file, env: {} });
+    expect(local).toMatchObject({ chainId: 31337, rpc: "http://127.0.0.1:8545" });
+    expect(signerPrivateKey(local, {})).toBe("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+    expect(signerPrivateKey(local, { LOCAL_PK: "0x01" })).toBe("0x01");
+  });
+
+  test("the test suite runs on the local profile's chain", async () => {
+    const foundry = await launchFoundry();
+    try {
+      const { chainId } = await foundry.provider.getNetwork();
+      expect(chainId).toBe(BigInt(LOCAL_NETWORK.chainId));
+    } finally {
+      await foundry.shutdown();
+    }
+  });
+
+  test("interpolates environment variables", async () => {
+    const env = { DEVNET_HOST: "devnet.example", DEVNET_VERIFIER_KEY: "key" };
+    const devnet = await resolveNetwork("devnet", { file, env });
+    expect(devnet.rpc).toBe("https://devnet.example/rpc");
+    expect(devnet.verifier).toEqual({ type: "blockscout", url: "https://devnet.example/api", apiKey: "key" });
+  });
+
+  test("an unset variable in the RPC URL is an error, elsewhere it is empty", async () => {
+    await expect(resolveNetwork("devnet", { file, env: {} })).rejects.toThrow("DEVNET_HOST");
+    const devnet = await resolveNetwork("devnet", { file, env: { DEVNET_HOST: "h" } });
+    expect(devnet.verifier!.apiKey).toBe("");
+    expect(() => interpolateEnv("${MISSING}", {})).toThrow("MISSING is not set");
+    expect(interpolateEnv("${MISSING}", {}, false)).toBe("");
+  });
+
+  test("--rpc= overrides the configured URL", async () => {
+    const devnet = await resolveNetwork("devnet", { file, env: {}, rpc: "http://127.0.0.1:9545" });
+    expect(devnet.rpc).toBe("http://127.0.0.1:9545");
+  });
+
+  test("signers come from the configured variable, or ${NAME}_PK", async () => {
+    const devnet = await resolveNetwork("devnet", { file, env: { DEVNET_HOST: "h" } });
+    expect(signerPrivateKey(devnet, { DEVNET_DEPLOYER: "0xabc", DEVNET_PK: "0xdef" })).toBe("0xabc");
+    const opSepolia = await resolveNetwork("op-sepolia", { file, env: {} });
+    expect(signerPrivateKey(opSepolia, { OP_SEPOLIA_PK: "0x123" })).toBe("0x123");
+    expect(signerPrivateKey(opSepolia, {})).toBeUndefined();
+  });
+
+  test("unknown networks list the configured ones", async () => {
+    await expect(resolveNetwork("goerli", { file })).rejects.toThrow("Configured networks: local, devnet, op-sepolia");
+  });
+
+  test("rejects invalid entries", async () => {
+    const bad = path.join(dir, "bad.json");
+    await writeFile(bad, JSON.stringify({ broken: { chainId: "1", rpc: "http://x" } }));
+    await expect(loadNetworks(bad)).rejects.toThrow('network "broken" needs a positive integer chainId');
+    await expect(loadNetworks(path.join(dir, "missing.json"))).rejects.toThrow("does not exist");
+  });
+
+  test("keeps only the known fields of an entry", async () => {
+    const extra = path.join(dir, "extra.json");
+    await writeFile(
+      extra,
+      JSON.stringify({
+        devnet: {
+          chainId: 1337,
+          rpc: "http://x",
+          gasPrice: "1",
+          explorer: { url: "http://explorer", theme: "dark" },
+          verifier: { type: "sourcify", chainId: 1 },
+          signer: { type: "json-rpc", url: "http://signer", variable: "DEVNET_PK" },
+        },
+      })
+    );
+    const devnet = (await loadNetworks(extra)).get("devnet")!;
+    expect(Object.keys(devnet)).not.toContain("gasPrice");
+    expect(devnet.explorer).toEqual({ url: "http://explorer" });
+    expect(Object.keys(devnet.verifier!)).not.toContain("chainId");
+    expect(Object.keys(devnet.signer!)).not.toContain("variable");
+    expect(devnet.signer).toEqual({ type: "json-rpc", url: "http://signer" });
+
+    const verifier = { type: "sourcify", url: 1 };
+    await writeFile(extra, JSON.stringify({ devnet: { chainId: 1337, rpc: "http://x", verifier } }));
+    await expect(loadNetworks(extra)).rejects.toThrow('network "devnet": verifier: "url" must be a string');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @description Minimal property-based testing for the test suite: generators with shrinking, and a runner that
+ *              checks a property against many generated values and shrinks any failure to a minimal reproducer.
+ *              Runs are deterministic per seed. FUZZ_SEED and FUZZ_RUNS override the seed and run count, so a
+ *              failure reported in CI can be replayed locally and a longer run can be done on demand.
+ * @usage       await checkProperty(chainDataArb, async (data) => expect(...), { runs: 100 });
+ */
+
+import { MaxUint256, getAddress, keccak256, toBeHex, toUtf8Bytes } from "ethers";
+
+// Deterministic pseudo-random source: a keccak256 chain from the seed
+export class Random {
+  private state: string;
+
+  constructor(readonly seed: string) {
+    this.state = keccak256(toUtf8Bytes(seed));
+  }
+
+  // 256 random bits
+  next(): bigint {
+    this.state = keccak256(this.state);
+    return BigInt(this.state);
+  }
+
+  // Integer in [0, n)
+  int(n: number): number {
+    return Number(this.next() % BigInt(n));
+  }
+
+  // Random bigint with a random bit length in [0, bits]
+  bits(bits: number): bigint {
+    const width = this.int(bits + 1);
+    return width === 0 ? 0n : this.next() & ((1n << BigInt(width)) - 1n);
+  }
+
+  pick<T>(xs: readonly T[]): T {
+    return xs[this.int(xs.length)];
+  }
+}
+
+export type Arbitrary<T> = {
+  generate(rng: Random): T;
+  // Simpler candidates for a failing value, simplest first
+  shrink(value: T): Iterable<T>;
+};
+
+export function constant<T>(value: T): Arbitrary<T> {
+  return { generate: () => value, shrink: () => [] };
+}
+
+// One of several arbitraries; a value shrinks with every alternative (each only yields candidates it could generate)
+export function oneOf<T>(...arbs: Arbitrary<T>[]): Arbitrary<T> {
+  return {
+    generate: (rng) => rng.pick(arbs).generate(rng),
+    *shrink(value) {
+      for (const arb of arbs) yield* arb.shrink(value);
+    },
+  };
+}
+
+// One of a fixed list of values, shrinking towards the first
+export function elementOf<T>(values: readonly T[]): Arbitrary<T> {
+  return {
+    generate: (rng) => rng.pick(values),
+    *shrink(value) {
+      const index = values.indexOf(value);
+      if (index > 0) yield* values.slice(0, index);
+    },
+  };
+}
+
+// Unsigned integer below 2^bits, biased towards boundary values, shrinking towards zero
+export function uint(bits = 256, edges: bigint[] = []): Arbitrary<bigint> {
+  const max = bits === 256 ? MaxUint256 : (1n << BigInt(bits)) - 1n;
+  const boundaries = [0n, 1n, max, max - 1n, ...edges].filter((x) => x >= 0n && x <= max);
+  return {
+    generate: (rng) => (rng.int(4) === 0 ? rng.pick(boundaries) : rng.bits(bits)),
+    *shrink(value) {
+      if (value === 0n) return;
+      yield 0n;
+      for (let delta = value / 2n; delta > 0n; delta /= 2n) yield value - delta;
+      yield value - 1n;
+    },
+  };
+}
+
+// String of code points from an alphabet, shrinking by dropping code points and simplifying them to the first
+export function stringOf(alphabet: readonly string[], maxLength: number): Arbitrary<string> {
+  return {
+    generate(rng) {
+      const length = rng.int(4) === 0 ? rng.int(maxLength + 1) : rng.int(Math.min(maxLength, 16) + 1);
+      return Array.from({ length }, () => rng.pick(alphabet)).join("");
+    },
+    *shrink(value) {
+      const chars = Array.from(value);
+      if (chars.length === 0) return;
+      yield "";
+      for (let size = chars.length >> 1; size > 0; size >>= 1) {
+        for (let i = 0; i + size <= chars.length; i += size) {
+          yield [...chars.slice(0, i), ...chars.slice(i + size)].join("");
+        }
+      }
+      for (let i = 0; i < chars.length; i++) {
+        if (chars[i] !== alphabet[0]) yield [...chars.slice(0, i), alphabet[0], ...chars.slice(i + 1)].join("");
+      }
+    },
+  };
+}
+
+// Checksummed address, shrinking towards the zero address
+export function address(): Arbitrary<string> {
+  const bits = uint(160, [1n << 159n]);
+  return {
+    generate: (rng) => getAddress(toBeHex(bits.generate(rng), 20)),
+    *shrink(value) {
+      for (const x of bits.shrink(BigInt(value))) yield getAddress(toBeHex(x, 20));
+    },
+  };
+}
+
+// Object of independent fields, shrinking one field at a time
+export function record<T extends Record<string, unknown>>(fields: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+  return {
+    generate(rng) {
+      const value = {} as T;
+      for (const key in fields) value[key] = fields[key].generate(rng);
+      return value;
+    },
+    *shrink(value) {
+      for (const key in fields) {
+        for (const x of fields[key].shrink(value[key])) yield { ...value, [key]: x };
+      }
+    },
+  };
+}
+
+// Array of up to maxLength elements, shrinking by dropping elements, then by shrinking each element
+export function arrayOf<T>(element: Arbitrary<T>, minLength: number, maxLength: number): Arbitrary<T[]> {
+  return {
+    generate: (rng) => Array.from({ length: minLength + rng.int(maxLength - minLength + 1) }, () => element.generate(rng)),
+    *shrink(value) {
+      for (let i = 0; i < value.length && value.length > minLength; i++) {
+        yield [...value.slice(0, i), ...value.slice(i + 1)];
+      }
+      for (let i = 0; i < value.length; i++) {
+        for (const x of element.shrink(value[i])) yield [...value.slice(0, i), x, ...value.slice(i + 1)];
+      }
+    },
+  };
+}
+
+export type PropertyOptions = {
+  runs?: number;
+  seed?: string;
+  // Upper bound on property evaluations while shrinking
+  maxShrinks?: number;
+};
+
+// JSON with bigints as decimal strings, for counterexamples
+export function stringify(value: unknown): string {
+  return JSON.stringify(value, (_, x) => (typeof x === "bigint" ? x.toString() : x), 2);
+}
+
+async function failure<T>(predicate: (value: T) => unknown, value: T): Promise<unknown> {
+  try {
+    await predicate(value);
+  } catch (err) {
+    return err ?? new Error("Property threw a falsy value");
+  }
+}
+
+// Checks a property (a function that throws, or rejects, on failure) against generated values
+// On failure the value is shrunk greedily and the error names the seed, the run and the minimal counterexample
+export async function checkProperty<T>(
+  arb: Arbitrary<T>,
+  predicate: (value: T) => unknown,
+  options: PropertyOptions = {}
+): Promise<void> {
+  const seed = process.env.FUZZ_SEED ?? options.seed ?? "erc7785";
+  const runs = Number(process.env.FUZZ_RUNS ?? options.runs ?? 100);
+  const maxShrinks = options.maxShrinks ?? 1000;
+  const rng = new Random(seed);
+
+  for (let run = 0; run < runs; run++) {
+    const value = arb.generate(rng);
+    let error = await failure(predicate, value);
+    if (error === undefined) continue;
+
+    // Greedy shrink: take the first simpler candidate that still fails, until none does
+    let minimal = value;
+    let steps = 0;
+    let evaluations = 0;
+    shrinking: while (evaluations < maxShrinks) {
+      for (const candidate of arb.shrink(minimal)) {
+        if (++evaluations > maxShrinks) break shrinking;
+        const candidateError = await failure(predicate, candidate);
+        if (candidateError !== undefined) {
+          minimal = candidate;
+          error = candidateError;
+          steps++;
+          continue shrinking;
+        }
+      }
+      break;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Property failed on run ${run + 1} of ${runs} (FUZZ_SEED=${seed}), shrunk in ${steps} steps.\n` +
+        `Minimal counterexample:\n${stringify(minimal)}\n` +
+        `Original counterexample:\n${stringify(value)}\n` +
+        `Error: ${message}`
+    );
+  }
+}
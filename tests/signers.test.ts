@@ -0,0 +1,127 @@
+/**
+ * @description Tests the deployer signer sources (deploy/signers.ts) against a local anvil: encrypted JSON
+ *              keystores, Foundry keystore accounts and a JSON-RPC signer, each deploying and registering.
+ * @usage       bun test tests/signers.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Signer, Wallet, encryptKeystoreJson, parseEther } from "ethers";
+import { LOCAL_NETWORK, NetworkConfig, SignerSource } from "../deploy/networks";
+import { loadSigner } from "../deploy/signers";
+import { deployContract } from "../deploy/utils";
+import { ChainRegistryClient } from "../sdk/ChainRegistryClient";
+import { BASE_CHAIN_DATA, deployLibraries, launchFoundry } from "./fixtures";
+
+const PASSWORD = "correct horse battery staple";
+
+describe("signers", () => {
+  let foundry, libs;
+  let dir: string;
+  const deployer = Wallet.createRandom();
+
+  // The local profile with a different signer source
+  function network(signer: SignerSource): NetworkConfig {
+    return { ...LOCAL_NETWORK, rpc: foundry.provider._getConnection().url, signer };
+  }
+
+  beforeAll(async () => {
+    foundry = await launchFoundry();
+    libs = await deployLibraries(foundry);
+
+    // Fund the keystore account
+    await foundry.confirm(foundry.wallets.admin.sendTransaction({ to: deployer.address, value: parseEther("10") }));
+
+    // A cheap scrypt setting keeps the test fast; real keystores use the default
+    const keystore = await encryptKeystoreJson(deployer, PASSWORD, { scrypt: { N: 1 << 10 } });
+
+    dir = await mkdtemp(path.join(tmpdir(), "signers-"));
+    await writeFile(path.join(dir, "deployer.json"), keystore);
+    await writeFile(path.join(dir, "password.txt"), PASSWORD + "\n");
+    await mkdir(path.join(dir, "foundry"));
+    await writeFile(path.join(dir, "foundry", "deployer"), keystore);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+    await foundry?.shutdown();
+  });
+
+  // Deploys a ChainRegistry with the signer (via deployContract) and registers a chain with the client
+  async function deployAndRegister(signer: Signer) {
+    const { contract } = await deployContract(foundry, signer, "ChainRegistry", [], libs);
+    expect(await contract.owner()).toBe(await signer.getAddress());
+
+    const client = new ChainRegistryClient(contract.target, signer);
+    const { chainId, receipt } = await client.register(BASE_CHAIN_DATA);
+    expect(receipt.from).toBe(await signer.getAddress());
+    expect((await client.chainDataFromId(chainId))?.chainName).toBe("base");
+  }
+
+  test("encrypted keystore with a password file", async () => {
+    const source: SignerSource = {
+      type: "keystore",
+      path: path.join(dir, "deployer.json"),
+      password: { file: path.join(dir, "password.txt") },
+    };
+    const signer = await loadSigner(network(source), foundry.provider);
+    expect(await signer.getAddress()).toBe(deployer.address);
+    await deployAndRegister(signer);
+  });
+
+  test("encrypted keystore with a prompted password", async () => {
+    const questions: string[] = [];
+    const source: SignerSource = { type: "keystore", path: path.join(dir, "deployer.json") };
+    const signer = await loadSigner(network(source), foundry.provider, {
+      prompt: async (question) => {
+        questions.push(question);
+        return PASSWORD;
+      },
+    });
+    expect(await signer.getAddress()).toBe(deployer.address);
+    expect(questions).toEqual([`Password for keystore ${source.path}: `]);
+  });
+
+  test("Foundry keystore account with a password variable", async () => {
+    const source: SignerSource = {
+      type: "foundry",
+      account: "deployer",
+      keystoreDir: path.join(dir, "foundry"),
+      password: { env: "DEPLOYER_PASSWORD" },
+    };
+    const signer = await loadSigner(network(source), foundry.provider, { env: { DEPLOYER_PASSWORD: PASSWORD } });
+    expect(await signer.getAddress()).toBe(deployer.address);
+    await deployAndRegister(signer);
+  });
+
+  test("JSON-RPC signer", async () => {
+    const admin = await foundry.wallets.admin.getAddress();
+    const source: SignerSource = { type: "json-rpc", url: foundry.provider._getConnection().url, address: admin };
+    const signer = await loadSigner(network(source), foundry.provider);
+    expect(await signer.getAddress()).toBe(admin);
+    await deployAndRegister(signer);
+  });
+
+  test("rejects a wrong password", async () => {
+    const source: SignerSource = { type: "keystore", path: path.join(dir, "deployer.json"), password: { env: "PW" } };
+    await expect(loadSigner(network(source), foundry.provider, { env: { PW: "wrong" } })).rejects.toThrow(
+      "Could not decrypt keystore"
+    );
+  });
+
+  test("rejects a keystore without a password source when not interactive", async () => {
+    const source: SignerSource = { type: "keystore", path: path.join(dir, "deployer.json") };
+    await expect(loadSigner(network(source), foundry.provider)).rejects.toThrow("No password source");
+  });
+
+  test("rejects a JSON-RPC signer on another chain or without the account", async () => {
+    const url = foundry.provider._getConnection().url;
+    const otherChain = { ...network({ type: "json-rpc", url }), chainId: 1 };
+    await expect(loadSigner(otherChain, foundry.provider)).rejects.toThrow("is on chain 31337");
+
+    const unknown = network({ type: "json-rpc", url, address: deployer.address });
+    await expect(loadSigner(unknown, foundry.provider)).rejects.toThrow("does not manage");
+  });
+});